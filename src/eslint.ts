@@ -0,0 +1,185 @@
+import {
+  ESLintUtils,
+  type TSESLint,
+  type TSESTree,
+} from "@typescript-eslint/utils";
+import ts, { type Type } from "typescript";
+
+import {
+  explain,
+  getSourceType,
+  type AnySourcePolicy,
+  type SchemaContext,
+  type TypeSchema,
+  type TypeView,
+} from "./index";
+
+type AnyRuleContext = Readonly<
+  TSESLint.RuleContext<string, readonly unknown[]>
+>;
+
+/**
+ * Builds the {@link SchemaContext} for a typescript-eslint rule, with the
+ * program and checker of the parser services, and the source file of `node`
+ * (which relative `t.fromModule()` specifiers are resolved from).
+ * Defaults to the file being linted.
+ *
+ * @example
+ * ```typescript
+ * create(context) {
+ *   return {
+ *     CallExpression(node) {
+ *       const ctx = createSchemaContext(context, node);
+ *       if (!isAssignableTo(ctx, typeOf(context, node.callee), Schema)) {
+ *         // ...
+ *       }
+ *     },
+ *   };
+ * }
+ * ```
+ *
+ * @throws When the rule runs without type information, as
+ * `getParserServices()` does.
+ */
+export function createSchemaContext(
+  context: AnyRuleContext,
+  node: TSESTree.Node = context.sourceCode.ast,
+): SchemaContext {
+  const services = ESLintUtils.getParserServices(context);
+  return {
+    checker: services.program.getTypeChecker(),
+    program: services.program,
+    sourceFile: services.esTreeNodeToTSNodeMap.get(node).getSourceFile(),
+  };
+}
+
+/**
+ * Returns the compiler type of an ESTree node.
+ *
+ * @throws When the rule runs without type information, as
+ * `getParserServices()` does.
+ */
+export function typeOf(context: AnyRuleContext, node: TSESTree.Node): Type {
+  return ESLintUtils.getParserServices(context).getTypeAtLocation(node);
+}
+
+/** Options for {@link defineSchemaRule}. */
+export type SchemaRuleOptions<SchemaName extends string> = {
+  /** The schemas that the rule checks, by name. */
+  schemas: Record<SchemaName, TypeSchema>;
+
+  /**
+   * ESLint selectors of the nodes to check, each with the name of the schema
+   * that the type of the node must be assignable to, e.g.
+   * `{ "CallExpression[callee.name='setBounds'] > .arguments": "Rectangle" }`.
+   */
+  selectors: Record<string, SchemaName>;
+
+  /**
+   * The report message. Can use the placeholders `{{ schema }}` (the printed
+   * schema), `{{ type }}` (the type of the node), and `{{ path }}` and
+   * `{{ reason }}` (of the mismatch, see {@link explain}). Defaults to
+   * ``"Expected `{{ schema }}`, got `{{ type }}`."``
+   */
+  message?: string;
+
+  /**
+   * The {@link AnySourcePolicy} for nodes whose type is or contains `any`.
+   * With `"report"`, the nodes that only match because of `any` are reported
+   * with `anySourceMessage`.
+   */
+  anySource?: AnySourcePolicy;
+
+  /**
+   * The report message for the `"report"` policy, with the same placeholders
+   * as `message`. Defaults to
+   * ``"`{{ type }}` only matches `{{ schema }}` because of `any`."``
+   */
+  anySourceMessage?: string;
+
+  /**
+   * The {@link TypeView} of the nodes to check, e.g. `"contextual"` to check
+   * the type that each node is expected to have rather than its own type.
+   * Defaults to `"narrowed"`, the type of the node where it appears. With
+   * `"contextual"`, nodes without a contextual type (anything but an
+   * expression that something is expected of) are skipped.
+   */
+  typeView?: TypeView;
+
+  /** The description of the rule, for its documentation. */
+  description?: string;
+};
+
+/**
+ * Defines a typescript-eslint rule that reports the nodes matched by each
+ * selector whose type is not assignable to the corresponding schema.
+ *
+ * @example
+ * ```typescript
+ * export default defineSchemaRule({
+ *   schemas: { Rectangle: t.object({ x: t.number(), y: t.number() }) },
+ *   selectors: { "CallExpression[callee.name='setBounds'] > .arguments": "Rectangle" },
+ *   message: "setBounds() expects `{{ schema }}`.",
+ * });
+ * ```
+ */
+export function defineSchemaRule<SchemaName extends string>(
+  options: SchemaRuleOptions<SchemaName>,
+): TSESLint.RuleModule<"mismatch" | "anySource"> {
+  const {
+    schemas,
+    selectors,
+    message = "Expected `{{ schema }}`, got `{{ type }}`.",
+    anySource,
+    anySourceMessage = "`{{ type }}` only matches `{{ schema }}` because of `any`.",
+    typeView,
+    description,
+  } = options;
+
+  return {
+    meta: {
+      type: "problem",
+      docs: description === undefined ? undefined : { description },
+      messages: { mismatch: message, anySource: anySourceMessage },
+      schema: [],
+    },
+    defaultOptions: [],
+    create(context) {
+      let ctx: SchemaContext | undefined;
+      const listener: TSESLint.RuleListener = {};
+      for (const [selector, schemaName] of Object.entries<SchemaName>(
+        selectors,
+      )) {
+        const schema = schemas[schemaName];
+        listener[selector] = (node: TSESTree.Node) => {
+          ctx ??= { ...createSchemaContext(context), anySource, typeView };
+          const tsNode =
+            ESLintUtils.getParserServices(context).esTreeNodeToTSNodeMap.get(
+              node,
+            );
+          if (
+            typeView === "contextual" &&
+            !(ts.isExpression(tsNode) && ctx.checker.getContextualType(tsNode))
+          ) {
+            return;
+          }
+          const type = getSourceType(ctx, tsNode);
+          const result = explain(ctx, type, schema);
+          const found = result.ok ? result.anySource : result;
+          if (!found) return;
+          context.report({
+            node,
+            messageId: result.ok ? "anySource" : "mismatch",
+            data: {
+              schema: `${schema}`,
+              type: ctx.checker.typeToString(type),
+              path: found.path.join("."),
+              reason: found.reason,
+            },
+          });
+        };
+      }
+      return listener;
+    },
+  };
+}
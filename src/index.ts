@@ -3,10 +3,61 @@ import ts, {
   type Type,
   type Program,
   type SymbolFlags,
+  type TypeFlags,
   type SourceFile,
+  type Signature,
+  type ElementFlags,
+  type ModifierFlags,
+  type ObjectFlags,
+  type ScriptTarget,
+  type SyntaxKind,
 } from "typescript";
 
 const TS_SYMBOL_FLAGS_OPTIONAL = 16777216 satisfies SymbolFlags.Optional;
+const TS_SYMBOL_FLAGS_ENUM = 384 satisfies SymbolFlags.Enum;
+const TS_SYMBOL_FLAGS_TYPE_LITERAL = 2048 satisfies SymbolFlags.TypeLiteral;
+const TS_SYMBOL_FLAGS_OBJECT_LITERAL = 4096 satisfies SymbolFlags.ObjectLiteral;
+const TS_SYMBOL_FLAGS_GET_ACCESSOR = 32768 satisfies SymbolFlags.GetAccessor;
+const TS_SYMBOL_FLAGS_SET_ACCESSOR = 65536 satisfies SymbolFlags.SetAccessor;
+const TS_SYMBOL_FLAGS_ALIAS = 2097152 satisfies SymbolFlags.Alias;
+const TS_SYMBOL_FLAGS_PROPERTY = 4 satisfies SymbolFlags.Property;
+const TS_SYMBOL_FLAGS_FUNCTION_SCOPED_VARIABLE =
+  1 satisfies SymbolFlags.FunctionScopedVariable;
+const TS_SYMBOL_FLAGS_TRANSIENT = 33554432 satisfies SymbolFlags.Transient;
+const TS_SYMBOL_FLAGS_VALUE = 111551 satisfies SymbolFlags.Value;
+const TS_SYMBOL_FLAGS_TYPE = 788968 satisfies SymbolFlags.Type;
+const TS_SYMBOL_FLAGS_NAMESPACE = 1920 satisfies SymbolFlags.Namespace;
+// Internal `CheckFlags.Readonly`, set on properties of mapped types such as
+// `Readonly<T>`.
+const TS_CHECK_FLAGS_READONLY = 8;
+const TS_MODIFIER_FLAGS_READONLY = 8 satisfies ModifierFlags.Readonly;
+const TS_OBJECT_FLAGS_REFERENCE = 4 satisfies ObjectFlags.Reference;
+// Internal `SignatureFlags.HasRestParameter`.
+const TS_SIGNATURE_FLAGS_HAS_REST_PARAMETER = 1;
+const TS_SCRIPT_TARGET_LATEST = 99 satisfies ScriptTarget.Latest;
+const TS_SYNTAX_KIND_READONLY_KEYWORD =
+  148 satisfies SyntaxKind.ReadonlyKeyword;
+const TS_TYPE_FLAGS_ANY = 1 satisfies TypeFlags.Any;
+const TS_TYPE_FLAGS_UNKNOWN = 2 satisfies TypeFlags.Unknown;
+const TS_TYPE_FLAGS_STRING = 4 satisfies TypeFlags.String;
+const TS_TYPE_FLAGS_NUMBER = 8 satisfies TypeFlags.Number;
+const TS_TYPE_FLAGS_BIGINT = 64 satisfies TypeFlags.BigInt;
+const TS_TYPE_FLAGS_UNDEFINED = 32768 satisfies TypeFlags.Undefined;
+const TS_TYPE_FLAGS_UNIQUE_ES_SYMBOL = 8192 satisfies TypeFlags.UniqueESSymbol;
+const TS_TYPE_FLAGS_VOID = 16384 satisfies TypeFlags.Void;
+const TS_TYPE_FLAGS_NEVER = 131072 satisfies TypeFlags.Never;
+const TS_TYPE_FLAGS_OBJECT = 524288 satisfies TypeFlags.Object;
+const TS_TYPE_FLAGS_TYPE_PARAMETER = 262144 satisfies TypeFlags.TypeParameter;
+const TS_TYPE_FLAGS_TEMPLATE_LITERAL =
+  134217728 satisfies TypeFlags.TemplateLiteral;
+const TS_TYPE_FLAGS_STRING_MAPPING =
+  268435456 satisfies TypeFlags.StringMapping;
+// Internal `TypeFlags.Primitive`: `StringLike | NumberLike | BigIntLike |
+// BooleanLike | EnumLike | ESSymbolLike | VoidLike | Null`.
+const TS_TYPE_FLAGS_PRIMITIVE = 402784252;
+const TS_ELEMENT_FLAGS_OPTIONAL = 2 satisfies ElementFlags.Optional;
+const TS_ELEMENT_FLAGS_VARIADIC = 8 satisfies ElementFlags.Variadic;
+const TS_ELEMENT_FLAGS_VARIABLE = 12 satisfies ElementFlags.Variable;
 
 /**
  * Context required by all schema checks.
@@ -17,15 +68,347 @@ const TS_SYMBOL_FLAGS_OPTIONAL = 16777216 satisfies SymbolFlags.Optional;
  * `sourceFile` is only required when resolving relative module specifiers
  * (`"./x"`, `"../x"`) with {@link t.fromModule}. It should be the source file
  * currently being analyzed.
+ *
+ * `moduleResolutionHost` is the file system that {@link t.fromModule} resolves
+ * module specifiers against, when `sourceFile` does not already import the
+ * same specifier. Defaults to the host of the program, so that
+ * programs built on a virtual `CompilerHost` resolve against their own files.
+ *
+ * `anySource` is the {@link AnySourcePolicy} for source types that are `any`,
+ * `"accept"` by default. {@link TypeSchema.anySource} overrides it for part
+ * of a schema.
+ *
+ * `typeView` is the {@link TypeView} that checks take of nodes and symbols
+ * given in place of a type, `"narrowed"` by default.
  */
 export type SchemaContext = {
   checker: TypeChecker;
   program?: Program;
   sourceFile?: SourceFile;
+  moduleResolutionHost?: ts.ModuleResolutionHost;
+  anySource?: AnySourcePolicy;
+  typeView?: TypeView;
 };
 
+/**
+ * What the checks accept in place of a type: a node, whose type depends on
+ * the {@link TypeView}, a symbol, or a signature (checked as a function type
+ * with that single signature).
+ */
+export type TypeSource = Type | ts.Node | ts.Symbol | Signature;
+
+/**
+ * Which type of a node or symbol the checks judge (see
+ * {@link getSourceType}).
+ *
+ * - `"declared"`: the type that the node refers to was declared with,
+ *   ignoring narrowing, e.g. `string | number` for `x` in
+ *   `if (typeof x === "string") x;`.
+ * - `"narrowed"`: the type at the node, narrowed by control flow, as shown
+ *   when hovering it (`string` in the example). Symbols have no location, so
+ *   they still get their declared type.
+ * - `"contextual"`: the type that the context of an expression node expects,
+ *   such as the parameter type for an argument. Symbols still get their
+ *   declared type.
+ */
+export type TypeView = "declared" | "narrowed" | "contextual";
+
+/**
+ * How checks treat source types that are `any`. Since `any` is assignable to
+ * every type, untyped code would otherwise pass every check.
+ *
+ * - `"accept"`: `any` satisfies every schema, as it does for the checker.
+ * - `"reject"`: `any` only satisfies schemas that accept every type
+ *   ({@link t.any}, {@link t.unknown} and {@link t.anyType}). Elsewhere,
+ *   including object properties, union members and other nested schemas, it
+ *   is an `"any-source"` mismatch. Types resolved by {@link t.fromModule} and
+ *   {@link t.global} reject it in their properties, index signatures and
+ *   type arguments too.
+ * - `"report"`: checks pass as with `"accept"`, but {@link explain} and
+ *   {@link match} flag the successes that only hold because of `any`.
+ */
+export type AnySourcePolicy = "accept" | "reject" | "report";
+
 type AcceptsFn = (type: Type, ctx: SchemaContext) => boolean;
 
+/**
+ * Machine-readable reason codes for a {@link Mismatch}.
+ *
+ * - `"not-assignable"`: the checker rejected the type (primitives and
+ *   {@link t.fromModule}).
+ * - `"missing-property"`: a required property is absent from the type.
+ * - `"optional-property"`: the property is optional on the type, but the
+ *   schema requires it.
+ * - `"readonly-property"`: the property is `readonly` on the type, but the
+ *   schema was marked `.mutable()` (in parameter position: the schema was
+ *   marked `.readonly()`, but the property is mutable).
+ * - `"mutable-property"`: the property is not `readonly` on the type, but the
+ *   schema was marked `.readonly()`.
+ * - `"unexpected-property"`: the type has a property (or index signature)
+ *   not listed in a `.strict()` object schema.
+ * - `"not-array"`: the type has no numeric index signature.
+ * - `"not-tuple"`: the type is not a tuple type ({@link t.tuple}).
+ * - `"tuple-length"`: the tuple has too few or too many elements.
+ * - `"readonly-tuple"`: the tuple is `readonly`, but the schema is not.
+ * - `"missing-index-signature"`: the type has no index signature for the key
+ *   schema of a {@link t.record}, and is not an object literal type.
+ * - `"not-collection"`: the type is not a lib `Map` or `Set`
+ *   ({@link t.map}, {@link t.set}).
+ * - `"readonly-collection"`: the type is a `ReadonlyMap` or `ReadonlySet`,
+ *   but the schema is not `readonly`.
+ * - `"not-promise"`: the type is not a lib `Promise` ({@link t.promise}).
+ * - `"not-thenable"`: the type has no callable `then` method
+ *   ({@link t.thenable}, {@link t.awaited}).
+ * - `"not-iterable"`: the type has no `[Symbol.iterator]` method
+ *   ({@link t.iterable}), or no `[Symbol.asyncIterator]` method
+ *   ({@link t.asyncIterable}).
+ * - `"not-generator"`: the type is not a lib `Generator` or `AsyncGenerator`
+ *   ({@link t.generator}).
+ * - `"not-instance"`: the type is not an instance of the class or interface
+ *   of a {@link t.instanceOf}, nor of one that extends it.
+ * - `"missing-brand"`: the type is not an intersection with the brand of a
+ *   {@link t.branded}.
+ * - `"no-matching-member"`: the type (or one of its union constituents)
+ *   matched no member of a {@link t.union}, or no variant of a
+ *   {@link t.discriminatedUnion} if its discriminant is not a string literal.
+ * - `"unhandled-variant"`: the discriminant property of the type (the last
+ *   path segment) is a string literal that names no variant of a
+ *   {@link t.discriminatedUnion}.
+ * - `"not-callable"`: the type has no call signatures ({@link t.function}),
+ *   or no construct signatures ({@link t.newable}).
+ * - `"too-many-parameters"`: the signature requires more arguments than the
+ *   schema provides.
+ * - `"no-matching-signature"`: none of the overloads of the type matched.
+ * - `"custom"`: a {@link t.custom} predicate returned `false`.
+ * - `"any-source"`: the type is `any`, which the `"reject"`
+ *   {@link AnySourcePolicy} does not accept for the schema.
+ * - `"not-any"`: the type is not `any` ({@link t.anyType}).
+ *
+ * Parameters are checked in the opposite direction (the schema must be
+ * assignable to the parameter type), so under a `"(param N)"` path segment
+ * the reason codes describe the schema rather than the type: for instance,
+ * `"missing-property"` means the schema lacks a property that the parameter
+ * type requires.
+ */
+export type MismatchReason =
+  | "not-assignable"
+  | "missing-property"
+  | "optional-property"
+  | "readonly-property"
+  | "mutable-property"
+  | "unexpected-property"
+  | "not-array"
+  | "not-tuple"
+  | "tuple-length"
+  | "readonly-tuple"
+  | "missing-index-signature"
+  | "not-collection"
+  | "readonly-collection"
+  | "not-promise"
+  | "not-thenable"
+  | "not-iterable"
+  | "not-generator"
+  | "not-instance"
+  | "missing-brand"
+  | "no-matching-member"
+  | "unhandled-variant"
+  | "not-callable"
+  | "too-many-parameters"
+  | "no-matching-signature"
+  | "custom"
+  | "any-source"
+  | "not-any";
+
+/**
+ * A step in a {@link Mismatch} path: a property name, a tuple position,
+ * `"[number]"` for the element type of an array (or the rest elements of a
+ * tuple), `"[string]"` and the like for an index signature, `"(key)"` and
+ * `"(value)"` for the type arguments of a `Map` or `Set`, `"<T>"` for the
+ * type argument `T` of a generic {@link t.fromModule} type, `"(awaited)"`
+ * for the value of a promise, `"(yield)"` for the values of an iterable,
+ * `"(return)"` and `"(next)"` for the other type arguments of a generator,
+ * or `"(param N)"`, `"(rest)"` and `"(return)"` for the parts of a signature.
+ */
+export type PathSegment = string | number;
+
+/**
+ * Describes why a type is not assignable to a schema.
+ */
+export type Mismatch = {
+  /**
+   * Location of the offending type relative to the checked type, e.g.
+   * `["bounds", "width"]`. Empty when the checked type itself is at fault.
+   */
+  path: PathSegment[];
+
+  /**
+   * The offending type. For `"missing-property"`, this is the object type
+   * that lacks the property; for `"no-matching-member"`, the union
+   * constituent that matched no member.
+   */
+  type: Type;
+
+  /** The schema that `type` was expected to satisfy. */
+  schema: TypeSchema;
+
+  reason: MismatchReason;
+
+  /**
+   * For `"no-matching-member"`, the mismatch reported by each member of the
+   * union, in declaration order. For `"no-matching-signature"`, the mismatch
+   * reported by each overload of the type.
+   */
+  causes?: Mismatch[];
+};
+
+/**
+ * Result of {@link explain}: either a success, or the first mismatch found
+ * while walking the schema.
+ *
+ * With the `"report"` {@link AnySourcePolicy}, a success that only holds
+ * because of `any` carries the mismatch that `"reject"` would have reported
+ * as `anySource`.
+ */
+export type ExplainResult =
+  | { ok: true; anySource?: Mismatch }
+  | ({ ok: false } & Mismatch);
+
+/**
+ * Result of {@link match}: like {@link ExplainResult}, with the types matched
+ * by each {@link t.capture} on success. Captures in branches that did not
+ * match (e.g. other union members) are absent.
+ */
+export type MatchResult =
+  | {
+      ok: true;
+      captures: Partial<Record<string, Type>>;
+      anySource?: Mismatch;
+    }
+  | ({ ok: false } & Mismatch);
+
+type CheckFn = (
+  type: Type,
+  ctx: SchemaContext,
+  self: TypeSchema,
+) => Mismatch | null;
+
+/**
+ * Binding strength of a printed schema, used to parenthesize nested schemas
+ * (e.g. `(string | number)[]`).
+ */
+const Precedence = {
+  Function: 0,
+  Union: 1,
+  Intersection: 2,
+  Operator: 3,
+  Primary: 4,
+} as const;
+
+type Precedence = (typeof Precedence)[keyof typeof Precedence];
+
+type SchemaKind =
+  | "number"
+  | "string"
+  | "boolean"
+  | "bigint"
+  | "symbol"
+  | "uniqueSymbol"
+  | "void"
+  | "undefined"
+  | "null"
+  | "never"
+  | "nonPrimitive"
+  | "any"
+  | "unknown"
+  | "literal"
+  | "templateLiteral"
+  | "object"
+  | "array"
+  | "tuple"
+  | "record"
+  | "map"
+  | "set"
+  | "promise"
+  | "thenable"
+  | "awaited"
+  | "iterable"
+  | "asyncIterable"
+  | "generator"
+  | "union"
+  | "discriminatedUnion"
+  | "intersection"
+  | "function"
+  | "fromModule"
+  | "instanceOf"
+  | "branded"
+  | "lazy"
+  | "capture"
+  | "custom";
+
+type SchemaDef = {
+  kind: SchemaKind;
+
+  /** Checks that `type` is assignable to the schema. */
+  check: CheckFn;
+
+  /**
+   * Checks that the schema is assignable to `type`, which is needed for
+   * contravariant positions such as function parameters.
+   */
+  checkFrom: CheckFn;
+
+  print: () => string;
+  precedence?: Precedence;
+  isOptional?: boolean;
+
+  /**
+   * `true` for `.readonly()` properties, `false` for `.mutable()` ones, and
+   * absent when either is accepted.
+   */
+  isReadonly?: boolean;
+
+  /** For {@link t.object} schemas, the shape they were built from. */
+  shape?: Record<string, TypeSchema>;
+
+  /** For {@link t.object} schemas, whether they are {@link TypeSchema.strict}. */
+  isStrict?: boolean;
+
+  /** For {@link TypeSchema.optional} schemas, the schema made optional. */
+  nonOptional?: TypeSchema;
+
+  /** For {@link t.discriminatedUnion} schemas, the discriminant property. */
+  discriminant?: string;
+
+  /** The {@link AnySourcePolicy} set with {@link TypeSchema.anySource}. */
+  anySource?: AnySourcePolicy;
+
+  /**
+   * Whether `any` satisfies the schema whatever the {@link AnySourcePolicy},
+   * for schemas that accept every type. Wrappers answer for the schema they
+   * check the same type against.
+   */
+  acceptsAnySource?: () => boolean;
+
+  /**
+   * For {@link t.fromModule} and {@link t.global} schemas, the export they
+   * refer to, with an `undefined` module for globals.
+   */
+  moduleExport?: { moduleName: string | undefined; exportName: string };
+
+  /**
+   * Builds the compiler type that the schema represents, for
+   * {@link compileSchema}. Absent, or returning `undefined`, when the schema
+   * has no exact equivalent.
+   */
+  compile?: (compiler: Compiler, self: TypeSchema) => Type | undefined;
+
+  /**
+   * For schemas allowed in {@link t.templateLiteral} holes, whether the text
+   * of a string literal matches the schema (e.g. `"42"` for `t.number()`).
+   */
+  matchText?: (text: string) => boolean;
+};
+
 /**
  * A type schema that checks whether a TypeScript compiler type is assignable
  * to the type represented by the schema.
@@ -34,15 +417,81 @@ type AcceptsFn = (type: Type, ctx: SchemaContext) => boolean;
  */
 export class TypeSchema {
   /** @internal */
-  readonly _accepts: AcceptsFn;
+  readonly _def: SchemaDef;
 
   /** @internal */
   readonly _isOptional: boolean;
 
   /** @internal */
-  constructor(accepts: AcceptsFn, isOptional = false) {
-    this._accepts = accepts;
-    this._isOptional = isOptional;
+  readonly _isReadonly: boolean | undefined;
+
+  /** @internal */
+  readonly _precedence: Precedence;
+
+  /** @internal */
+  constructor(def: SchemaDef) {
+    this._def = def;
+    this._isOptional = def.isOptional ?? false;
+    this._isReadonly = def.isReadonly;
+    this._precedence = def.precedence ?? Precedence.Primary;
+  }
+
+  /**
+   * Returns `null` if the type is assignable to this schema, or the first
+   * mismatch found otherwise.
+   *
+   * @internal
+   */
+  _check(type: Type, ctx: SchemaContext): Mismatch | null {
+    ctx = withAnySource(ctx, this._def.anySource);
+    if (
+      (type.flags & TS_TYPE_FLAGS_ANY) !== 0 &&
+      !acceptsAnySource(this) &&
+      checkAnySource(ctx)
+    ) {
+      return mismatch(this, type, "any-source");
+    }
+    return memoizeCheck(ctx, "check", this, type, () =>
+      discardCapturesOnMismatch(() =>
+        guardCycles(checksInProgress, this, type, () =>
+          this._def.check(type, ctx, this),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Returns `null` if this schema is assignable to the type, or the first
+   * mismatch found otherwise.
+   *
+   * @internal
+   */
+  _checkFrom(type: Type, ctx: SchemaContext): Mismatch | null {
+    ctx = withAnySource(ctx, this._def.anySource);
+    return memoizeCheck(ctx, "checkFrom", this, type, () =>
+      discardCapturesOnMismatch(() =>
+        guardCycles(checksFromInProgress, this, type, () =>
+          this._def.checkFrom(type, ctx, this),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Prints this schema as TypeScript type syntax, e.g.
+   * `{ x: number; label?: string | undefined }`.
+   */
+  toString(): string {
+    // Only recursive schemas built with `t.lazy()` can contain themselves.
+    // Without a name to refer to, the cycle widens to `unknown`, which keeps
+    // the output valid type syntax.
+    if (schemasBeingPrinted.has(this)) return "unknown /* recursive */";
+    schemasBeingPrinted.add(this);
+    try {
+      return this._def.print();
+    } finally {
+      schemasBeingPrinted.delete(this);
+    }
   }
 
   /**
@@ -58,306 +507,4249 @@ export class TypeSchema {
    * ```
    */
   optional(): TypeSchema {
-    return new TypeSchema(t.union(this, t.undefined())._accepts, true);
+    return new TypeSchema({
+      ...t.union(this, t.undefined())._def,
+      isOptional: true,
+      isReadonly: this._isReadonly,
+      anySource: this._def.anySource,
+      nonOptional: this._def.nonOptional ?? this,
+    });
   }
 
   /**
-   * Wraps this schema to also accept `null`.
+   * Requires the property to be declared `readonly` when used as a property
+   * in {@link t.object}, either directly, through a mapped type such as
+   * `Readonly<T>`, or as a getter without a setter.
    *
    * @example
    * ```typescript
-   * const MaybeNumber = t.number().nullable(); // number | null
+   * const Entity = t.object({
+   *   id: t.string().readonly(),
+   * });
    * ```
    */
-  nullable(): TypeSchema {
-    return t.union(this, t.null());
+  readonly(): TypeSchema {
+    return new TypeSchema({ ...this._def, isReadonly: true });
   }
 
   /**
-   * Wraps this schema to also accept `null` and `undefined`.
+   * Requires the property not to be `readonly` when used as a property in
+   * {@link t.object}.
    *
    * @example
    * ```typescript
-   * const MaybeNumber = t.number().nullish(); // number | null | undefined
+   * const State = t.object({
+   *   count: t.number().mutable(),
+   * });
    * ```
    */
-  nullish(): TypeSchema {
-    return this.nullable().optional();
+  mutable(): TypeSchema {
+    return new TypeSchema({ ...this._def, isReadonly: false });
   }
-}
-
-const schema = (check: AcceptsFn): TypeSchema => new TypeSchema(check);
-
-/**
- * Returns `true` if the given TypeScript type is assignable to the schema–in
- * other words, if `type extends T` with `T` the TypeScript type represented
- * by the schema.
- */
-export function isAssignableTo(
-  ctx: SchemaContext,
-  type: Type,
-  schema: TypeSchema,
-): boolean {
-  return schema._accepts(type, ctx);
-}
-
-/**
- * Schema builder namespace.
- */
-export const t = {
-  /** Represents the `number` type. */
-  number: (): TypeSchema =>
-    schema((type, { checker }) =>
-      checker.isTypeAssignableTo(type, checker.getNumberType()),
-    ),
-
-  /** Represents the `string` type. */
-  string: (): TypeSchema =>
-    schema((type, { checker }) =>
-      checker.isTypeAssignableTo(type, checker.getStringType()),
-    ),
-
-  /** Represents the `boolean` type. */
-  boolean: (): TypeSchema =>
-    schema((type, { checker }) =>
-      checker.isTypeAssignableTo(type, checker.getBooleanType()),
-    ),
-
-  /** Represents the `void` type. */
-  void: (): TypeSchema =>
-    schema((type, { checker }) =>
-      checker.isTypeAssignableTo(type, checker.getVoidType()),
-    ),
-
-  /** Represents the `undefined` type. */
-  undefined: (): TypeSchema =>
-    schema((type, { checker }) =>
-      checker.isTypeAssignableTo(type, checker.getUndefinedType()),
-    ),
-
-  /** Represents the `null` type. */
-  null: (): TypeSchema =>
-    schema((type, { checker }) =>
-      checker.isTypeAssignableTo(type, checker.getNullType()),
-    ),
 
   /**
-   * Represents the `any` type. Useful as a placeholder in object schemas when
-   * you care about a property's existence but not its type.
+   * Sets the {@link AnySourcePolicy} of this schema and of the schemas nested
+   * in it, overriding the one of the {@link SchemaContext}.
+   *
+   * @example
+   * ```typescript
+   * const Options = t.object({ timeout: t.number() }).anySource("reject");
+   * ```
    */
-  any: (): TypeSchema => schema(() => true),
+  anySource(policy: AnySourcePolicy): TypeSchema {
+    return new TypeSchema({
+      ...this._def,
+      anySource: policy,
+      // Compiled checks cannot tell `any` apart from other source types.
+      compile: policy === "accept" ? this._def.compile : undefined,
+    });
+  }
 
   /**
-   * Represents the `unknown` type. Semantically identical to `t.any()` as a
-   * predicate, but communicates intent differently in your schema.
+   * Makes a {@link t.object} schema reject properties that are not in its
+   * shape, which usually are typos in configuration objects.
+   *
+   * @example
+   * ```typescript
+   * const Options = t.object({ verbose: t.boolean().optional() }).strict();
+   * ```
    */
-  unknown: (): TypeSchema => schema(() => true),
+  strict(): TypeSchema {
+    return this._withShape(this._shape("strict"), true);
+  }
 
   /**
-   * Represents an object type with the specified shape. Each property must be
-   * present and non-optional unless its schema was marked `.optional()`.
-   *
-   * Extra properties are allowed (structural subtyping), consistent with
-   * TypeScript's own assignability rules.
+   * Adds properties to a {@link t.object} schema, replacing those with the
+   * same keys. The result is strict if this schema is, and keeps its
+   * modifiers, as the other transforms do.
    *
    * @example
    * ```typescript
-   * const Point = t.object({
-   *   x: t.number(),
-   *   y: t.number(),
-   *   label: t.string().optional(),
-   * });
+   * const RotatedRectangle = Rectangle.extend({ rotation: t.number() });
    * ```
    */
-  object: (shape: Record<string, TypeSchema>): TypeSchema =>
-    schema((type, ctx) =>
-      Object.entries(shape).every(([key, propSchema]) => {
-        const propSymbol = type.getProperty(key);
-
-        if (!propSymbol) return propSchema._isOptional;
-
-        if (
-          !propSchema._isOptional &&
-          (propSymbol.flags & TS_SYMBOL_FLAGS_OPTIONAL) !== 0
-        ) {
-          return false;
-        }
-
-        const propType = ctx.checker.getTypeOfSymbol(propSymbol);
-        return propSchema._accepts(propType, ctx);
-      }),
-    ),
+  extend(shape: Record<string, TypeSchema>): TypeSchema {
+    return this._withShape({ ...this._shape("extend"), ...shape });
+  }
 
   /**
-   * Represents an array type whose element type satisfies the given schema.
-   * Checks for a numeric index signature, so it also covers tuples and other
-   * numerically-indexed types.
+   * Combines two {@link t.object} schemas, as {@link TypeSchema.extend} with
+   * the shape of `other`. Properties of `other` replace those with the same
+   * keys, unlike in a {@link t.intersection}, and the result is strict if
+   * `other` is.
    *
    * @example
    * ```typescript
-   * const NumberArray = t.array(t.number());
+   * const Bounds = Position.merge(Size);
    * ```
    */
-  array: (element: TypeSchema): TypeSchema =>
-    schema((type, ctx) => {
-      const indexType = type.getNumberIndexType();
-      if (!indexType) return false;
-      return element._accepts(indexType, ctx);
-    }),
+  merge(other: TypeSchema): TypeSchema {
+    return this._withShape(
+      { ...this._shape("merge"), ...other._shape("merge") },
+      (other._def.nonOptional ?? other)._def.isStrict,
+    );
+  }
 
   /**
-   * Represents a union of the given schemas. For union source types, every
-   * constituent must individually satisfy at least one member schema.
+   * Keeps the given properties of a {@link t.object} schema.
    *
    * @example
    * ```typescript
-   * const StringOrNumber = t.union(t.string(), t.number());
+   * const Position = Rectangle.pick(["x", "y"]);
    * ```
+   *
+   * @throws When a key is not in the shape.
    */
-  union: (...members: TypeSchema[]): TypeSchema =>
-    schema((type, ctx) => {
-      if (type.isUnion()) {
-        return type.types.every((member) =>
-          members.some((m) => m._accepts(member, ctx)),
-        );
-      }
-      return members.some((m) => m._accepts(type, ctx));
-    }),
+  pick(keys: readonly string[]): TypeSchema {
+    const shape = this._shape("pick");
+    return this._withShape(
+      Object.fromEntries(
+        keys.map((key) => [key, this._property("pick", shape, key)]),
+      ),
+    );
+  }
 
   /**
-   * Represents an intersection of the given schemas. The type must satisfy
-   * every member schema simultaneously.
+   * Removes the given properties from a {@link t.object} schema.
    *
    * @example
    * ```typescript
-   * const NamedAndAged = t.intersection(
-   *   t.object({ name: t.string() }),
-   *   t.object({ age: t.number() }),
-   * );
+   * const Size = Rectangle.omit(["x", "y"]);
    * ```
+   *
+   * @throws When a key is not in the shape.
    */
-  intersection: (...members: TypeSchema[]): TypeSchema =>
-    schema((type, ctx) => members.every((m) => m._accepts(type, ctx))),
+  omit(keys: readonly string[]): TypeSchema {
+    const shape = { ...this._shape("omit") };
+    for (const key of keys) {
+      this._property("omit", shape, key);
+      delete shape[key];
+    }
+    return this._withShape(shape);
+  }
 
   /**
-   * Represents a type exported from a module. Resolves the module using
-   * TypeScript's module resolution algorithm, with a fallback to ambient
-   * module declarations. Resolved types are cached per `TypeChecker` instance.
+   * Makes the properties of a {@link t.object} schema optional, or only the
+   * given ones, as `Partial<T>` does.
    *
-   * Requires `program` in the {@link SchemaContext}. Relative specifiers
-   * (`"./x"`, `"../x"`) also require `sourceFile`.
+   * @example
+   * ```typescript
+   * const RectanglePatch = Rectangle.partial();
+   * ```
    *
-   * @param moduleName The module specifier, as in an `import` statement.
-   * @param exportName The exported type, class or interface name.
+   * @throws When a key is not in the shape.
+   */
+  partial(keys?: readonly string[]): TypeSchema {
+    const shape = this._shape("partial");
+    const partial = { ...shape };
+    for (const key of keys ?? Object.keys(shape)) {
+      const propSchema = this._property("partial", shape, key);
+      if (!propSchema._isOptional) partial[key] = propSchema.optional();
+    }
+    return this._withShape(partial);
+  }
+
+  /**
+   * Makes the optional properties of a {@link t.object} schema required, or
+   * only the given ones, as `Required<T>` does: `.optional()` properties no
+   * longer accept `undefined` either.
    *
    * @example
    * ```typescript
-   * const BaseWindow = t.fromModule("electron", "BaseWindow");
-   * const Buffer = t.fromModule("node:buffer", "Buffer");
+   * const ResolvedOptions = Options.required();
    * ```
    *
-   * @throws When `program` is missing from the context.
-   * @throws When `moduleName` is relative and `sourceFile` is missing.
-   * @throws When no export named `exportName` can be resolved from `moduleName`.
+   * @throws When a key is not in the shape.
    */
-  fromModule: (moduleName: string, exportName: string): TypeSchema =>
-    schema((type, { checker, program, sourceFile }) => {
-      if (!program) {
-        throw new Error(
-          "t.fromModule() requires `program` in the SchemaContext.",
-        );
-      }
-      const isRelative =
-        moduleName.startsWith("./") || moduleName.startsWith("../");
-      if (isRelative && !sourceFile) {
-        throw new Error(
-          "t.fromModule() requires `sourceFile` in the SchemaContext for relative module specifiers.",
-        );
-      }
-
-      let cache = moduleTypeCache.get(checker);
-      if (!cache) {
-        cache = new Map();
-        moduleTypeCache.set(checker, cache);
-      }
-
-      const cacheKey = JSON.stringify([
-        moduleName,
-        exportName,
-        isRelative ? sourceFile!.fileName : null,
-      ]);
-
-      if (!cache.has(cacheKey)) {
-        cache.set(
-          cacheKey,
-          resolveModuleType(
-            checker,
-            program,
-            moduleName,
-            exportName,
-            sourceFile,
-          ),
-        );
-      }
-
-      const targetType = cache.get(cacheKey);
-      if (targetType == null) {
-        throw new Error(
-          `t.fromModule(): could not resolve export "${exportName}" from module "${moduleName}".`,
-        );
-      }
-      return checker.isTypeAssignableTo(type, targetType);
-    }),
+  required(keys?: readonly string[]): TypeSchema {
+    const shape = this._shape("required");
+    const required = { ...shape };
+    for (const key of keys ?? Object.keys(shape)) {
+      const propSchema = this._property("required", shape, key);
+      if (!propSchema._isOptional) continue;
+      const { nonOptional } = propSchema._def;
+      required[key] = new TypeSchema({
+        ...(nonOptional ?? propSchema)._def,
+        isOptional: false,
+        isReadonly: propSchema._isReadonly,
+      });
+    }
+    return this._withShape(required);
+  }
 
   /**
-   * Escape hatch for arbitrary predicates that the DSL cannot express directly.
+   * Represents the keys of a {@link t.object} schema, as a union of string
+   * literals like `keyof T`.
    *
    * @example
    * ```typescript
-   * const HasLengthProp = t.custom((type) =>
-   *   type.getProperty("length") != null,
-   * );
+   * const Dimension = Rectangle.keyof(); // "x" | "y" | "width" | "height"
    * ```
    */
-  custom: (predicate: AcceptsFn): TypeSchema => schema(predicate),
-};
-
-/** Per-checker cache for `t.fromModule()` resolved types. */
-const moduleTypeCache = new WeakMap<TypeChecker, Map<string, Type | null>>();
+  keyof(): TypeSchema {
+    return t.enum(Object.keys(this._shape("keyof")));
+  }
 
-/**
- * Resolves a module's exported type using TypeScript's module resolution
- * algorithm, with a fallback to ambient module declarations.
+  /**
+   * Returns the shape of a {@link t.object} schema, or of the one made
+   * optional by {@link TypeSchema.optional}.
+   *
+   * @throws When this is not a {@link t.object} schema.
+   *
+   * @internal
+   */
+  _shape(method: string): Record<string, TypeSchema> {
+    const { shape } = (this._def.nonOptional ?? this)._def;
+    if (!shape) {
+      throw new Error(
+        `.${method}() can only be applied to t.object() schemas.`,
+      );
+    }
+    return shape;
+  }
+
+  /**
+   * Returns the schema of a property of the shape.
+   *
+   * @throws When the key is not in the shape.
+   *
+   * @internal
+   */
+  _property(
+    method: string,
+    shape: Record<string, TypeSchema>,
+    key: string,
+  ): TypeSchema {
+    if (!Object.hasOwn(shape, key)) {
+      throw new Error(
+        `.${method}(): unknown property "${key}" in \`${this}\`.`,
+      );
+    }
+    return shape[key]!;
+  }
+
+  /**
+   * Builds a {@link t.object} schema with the given shape, as strict as this
+   * one unless `isStrict` is given, and with the same modifiers and
+   * {@link AnySourcePolicy}.
+   *
+   * @internal
+   */
+  _withShape(
+    shape: Record<string, TypeSchema>,
+    isStrict = (this._def.nonOptional ?? this)._def.isStrict,
+  ): TypeSchema {
+    const { nonOptional, anySource } = this._def;
+    let result = nonOptional
+      ? nonOptional._withShape(shape, isStrict).optional()
+      : t.object(shape, { strict: isStrict });
+    if (anySource) result = result.anySource(anySource);
+    return result._isReadonly === this._isReadonly
+      ? result
+      : new TypeSchema({ ...result._def, isReadonly: this._isReadonly });
+  }
+
+  /**
+   * Applies type arguments to a generic {@link t.fromModule} or
+   * {@link t.global} type. The type must be an instantiation of the generic
+   * (or a class or interface extending one) whose type arguments satisfy the
+   * given schemas. Type arguments are compared covariantly, as for the
+   * elements of an array.
+   *
+   * @example
+   * ```typescript
+   * const StringResult = t.fromModule("./result", "Result").of(t.string(), t.any());
+   * ```
+   *
+   * @throws When checking, if the export is not generic or expects a
+   * different number of type arguments.
+   */
+  of(...typeArguments: TypeSchema[]): TypeSchema {
+    return this._instantiate(typeArguments);
+  }
+
+  /**
+   * Accepts any instantiation of a generic {@link t.fromModule} type, such as
+   * `Result<string, Error>` for `Result`.
+   *
+   * @example
+   * ```typescript
+   * const AnyResult = t.fromModule("./result", "Result").ofAny();
+   * ```
+   *
+   * @throws When checking, if the export is not generic.
+   */
+  ofAny(): TypeSchema {
+    return this._instantiate(undefined);
+  }
+
+  /** @internal */
+  _instantiate(typeArguments: TypeSchema[] | undefined): TypeSchema {
+    const { moduleExport } = this._def;
+    if (!moduleExport) {
+      throw new Error(
+        "Type arguments can only be applied to t.fromModule() and t.global() schemas.",
+      );
+    }
+    return genericInstanceSchema(
+      moduleExport.moduleName,
+      moduleExport.exportName,
+      typeArguments,
+    );
+  }
+
+  /**
+   * Wraps this schema to also accept `null`.
+   *
+   * @example
+   * ```typescript
+   * const MaybeNumber = t.number().nullable(); // number | null
+   * ```
+   */
+  nullable(): TypeSchema {
+    return t.union(this, t.null());
+  }
+
+  /**
+   * Wraps this schema to also accept `null` and `undefined`.
+   *
+   * @example
+   * ```typescript
+   * const MaybeNumber = t.number().nullish(); // number | null | undefined
+   * ```
+   */
+  nullish(): TypeSchema {
+    return this.nullable().optional();
+  }
+}
+
+const schema = (def: SchemaDef): TypeSchema => new TypeSchema(def);
+
+/**
+ * The captures recorded by the current {@link match} call, in order, or
+ * `undefined` outside of it.
+ */
+let currentCaptures: [name: string, type: Type][] | undefined;
+
+/**
+ * Runs a check, and forgets the captures it recorded if it fails. Failed
+ * checks are often tried alternatives, such as the members of a union.
+ */
+const discardCapturesOnMismatch = (
+  check: () => Mismatch | null,
+): Mismatch | null => {
+  const captures = currentCaptures;
+  const length = captures?.length ?? 0;
+  const result = check();
+  if (result && captures) captures.length = length;
+  return result;
+};
+
+/** Check results of a direction, by schema and type. */
+type ResultCache = WeakMap<TypeSchema, Map<Type, Mismatch | null>>;
+
+/**
+ * Results by source file and module resolution host, which module specifiers
+ * are resolved with, and by {@link AnySourcePolicy}.
+ */
+type ResultCaches = Map<
+  SourceFile | undefined,
+  Map<ts.ModuleResolutionHost | undefined, Map<AnySourcePolicy, ResultCache>>
+>;
+
+/** The check results memoized for a `TypeChecker`, see {@link memoizeCheck}. */
+type CheckerCache = {
+  hits: number;
+  misses: number;
+  check: ResultCaches;
+  checkFrom: ResultCaches;
+};
+
+/**
+ * Per-checker cache of check results. Types and the checker are immutable
+ * for the lifetime of a program, and a new program comes with a new checker,
+ * so results never need to be invalidated.
+ */
+const checkerCaches = new WeakMap<TypeChecker, CheckerCache>();
+
+/**
+ * Incremented whenever a check produces a result that must not be cached:
+ * a cycle assumed to be assignable by {@link guardCycles}, or an impure
+ * {@link t.custom} predicate. Results computed while it changes are not
+ * cached either.
+ */
+let uncacheableChecks = 0;
+
+const getCheckerCache = (checker: TypeChecker): CheckerCache => {
+  let cache = checkerCaches.get(checker);
+  if (!cache) {
+    cache = { hits: 0, misses: 0, check: new Map(), checkFrom: new Map() };
+    checkerCaches.set(checker, cache);
+  }
+  return cache;
+};
+
+/**
+ * Runs a check, or returns its memoized result for the same checker, source
+ * file, module resolution host, {@link AnySourcePolicy}, schema and type. {@link match} bypasses the
+ * cache, since cached results do not record captures, and so does the
+ * search for the mismatch hidden by an `any` (see {@link findAnySource}).
+ */
+const memoizeCheck = (
+  {
+    checker,
+    sourceFile,
+    moduleResolutionHost,
+    anySource = "accept",
+  }: SchemaContext,
+  direction: "check" | "checkFrom",
+  schema: TypeSchema,
+  type: Type,
+  check: () => Mismatch | null,
+): Mismatch | null => {
+  if (currentCaptures || findingAnySource) return check();
+
+  const cache = getCheckerCache(checker);
+  let byHost = cache[direction].get(sourceFile);
+  if (!byHost) {
+    byHost = new Map();
+    cache[direction].set(sourceFile, byHost);
+  }
+  let byPolicy = byHost.get(moduleResolutionHost);
+  if (!byPolicy) {
+    byPolicy = new Map();
+    byHost.set(moduleResolutionHost, byPolicy);
+  }
+  let resultCache = byPolicy.get(anySource);
+  if (!resultCache) {
+    resultCache = new WeakMap();
+    byPolicy.set(anySource, resultCache);
+  }
+  let results = resultCache.get(schema);
+  if (!results) {
+    results = new Map();
+    resultCache.set(schema, results);
+  }
+
+  if (results.has(type)) {
+    cache.hits++;
+    return results.get(type) ?? null;
+  }
+  cache.misses++;
+  const uncacheableBefore = uncacheableChecks;
+  const result = check();
+  if (uncacheableChecks === uncacheableBefore) results.set(type, result);
+  return result;
+};
+
+/**
+ * Incremented whenever the `"report"` {@link AnySourcePolicy} lets `any`
+ * satisfy a schema, so that {@link explain} knows to look for the mismatch it
+ * hides.
+ */
+let reportedAnySources = 0;
+
+/**
+ * Whether checks are looking for the mismatch hidden by an `any`, which makes
+ * the `"report"` {@link AnySourcePolicy} behave as `"reject"`.
+ */
+let findingAnySource = false;
+
+/** Returns the context with the given {@link AnySourcePolicy}, if any. */
+const withAnySource = (
+  ctx: SchemaContext,
+  anySource: AnySourcePolicy | undefined,
+): SchemaContext =>
+  anySource && anySource !== ctx.anySource ? { ...ctx, anySource } : ctx;
+
+/** Whether `any` satisfies the schema whatever the {@link AnySourcePolicy}. */
+const acceptsAnySource = (schema: TypeSchema): boolean =>
+  schema._def.acceptsAnySource?.() ?? false;
+
+/**
+ * Applies the {@link AnySourcePolicy} of the context to an `any` source type,
+ * for a schema that does not accept every type. Returns whether the type must
+ * be rejected.
+ */
+const checkAnySource = ({ anySource = "accept" }: SchemaContext): boolean => {
+  if (anySource === "report" && !findingAnySource) {
+    reportedAnySources++;
+    // Reports must happen again on later checks, which the cache would skip.
+    uncacheableChecks++;
+    return false;
+  }
+  return anySource !== "accept";
+};
+
+/**
+ * Whether {@link t.compiled} can use the compiled type, which tells neither
+ * captures nor `any` source types apart.
+ */
+const canCompile = ({ anySource = "accept" }: SchemaContext): boolean =>
+  !currentCaptures && anySource === "accept";
+
+/**
+ * Returns the mismatch that a successful check would have reported if the
+ * `"report"` {@link AnySourcePolicy} rejected `any`, or `undefined` when the
+ * success does not depend on it.
+ */
+const findAnySource = (
+  ctx: SchemaContext,
+  type: Type,
+  schema: TypeSchema,
+): Mismatch | undefined => {
+  const outerCaptures = currentCaptures;
+  currentCaptures = undefined;
+  findingAnySource = true;
+  try {
+    return schema._check(type, ctx) ?? undefined;
+  } finally {
+    findingAnySource = false;
+    currentCaptures = outerCaptures;
+  }
+};
+
+/** The schemas currently being printed, see {@link TypeSchema.toString}. */
+const schemasBeingPrinted = new Set<TypeSchema>();
+
+/**
+ * The types each schema is currently being checked against, in each
+ * direction. Checks are synchronous, so these only hold the pairs on the
+ * current call stack.
+ */
+const checksInProgress = new WeakMap<TypeSchema, Set<Type>>();
+const checksFromInProgress = new WeakMap<TypeSchema, Set<Type>>();
+
+/**
+ * Runs a check unless the same (schema, type) pair is already being checked
+ * further up the stack. Recursive schemas ({@link t.lazy}) and recursive
+ * types then meet again, and the repeated pair is treated as assignable: any
+ * mismatch would be reported by the outer check.
+ */
+const guardCycles = (
+  inProgress: WeakMap<TypeSchema, Set<Type>>,
+  schema: TypeSchema,
+  type: Type,
+  check: () => Mismatch | null,
+): Mismatch | null => {
+  let types = inProgress.get(schema);
+  if (!types) {
+    types = new Set();
+    inProgress.set(schema, types);
+  }
+  if (types.has(type)) {
+    // Other results on the stack now depend on this assumption.
+    uncacheableChecks++;
+    return null;
+  }
+  types.add(type);
+  try {
+    return check();
+  } finally {
+    types.delete(type);
+  }
+};
+
+/** Prints a nested schema, parenthesized if it binds looser than `min`. */
+const printOperand = (schema: TypeSchema, min: Precedence): string =>
+  // Recursive occurrences print as a keyword, see TypeSchema.toString.
+  schema._precedence < min && !schemasBeingPrinted.has(schema)
+    ? `(${schema})`
+    : `${schema}`;
+
+/** Prints an object key, quoted unless it is a valid identifier. */
+const printKey = (key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+const mismatch = (
+  schema: TypeSchema,
+  type: Type,
+  reason: MismatchReason,
+): Mismatch => ({ path: [], type, schema, reason });
+
+/** Prepends `segment` to the path of a nested mismatch, if any. */
+const atPath = (
+  segment: PathSegment,
+  nested: Mismatch | null,
+): Mismatch | null => nested && { ...nested, path: [segment, ...nested.path] };
+
+/** Builds a schema that delegates to `checker.isTypeAssignableTo`. */
+const assignableTo = (
+  kind: SchemaKind,
+  getTarget: (checker: TypeChecker) => Type,
+  def: Partial<SchemaDef> = {},
+): TypeSchema =>
+  schema({
+    kind,
+    check: (type, { checker }, self) =>
+      checker.isTypeAssignableTo(type, getTarget(checker))
+        ? null
+        : mismatch(self, type, "not-assignable"),
+    checkFrom: (type, { checker }, self) =>
+      checker.isTypeAssignableTo(getTarget(checker), type)
+        ? null
+        : mismatch(self, type, "not-assignable"),
+    print: () => kind,
+    compile: ({ ctx }) => getTarget(ctx.checker),
+    ...def,
+  });
+
+/**
+ * Runs a check against each constituent of a union type, since a union is
+ * assignable to a schema when all of its constituents are.
+ */
+const checkEachConstituent = (
+  type: Type,
+  check: (constituent: Type) => Mismatch | null,
+): Mismatch | null => {
+  for (const constituent of type.isUnion() ? type.types : [type]) {
+    const result = check(constituent);
+    if (result) return result;
+  }
+  return null;
+};
+
+/**
+ * Whether TypeScript infers an implicit index signature for the type, as it
+ * does for object literal types and type literals.
+ */
+const hasImplicitIndex = (type: Type): boolean => {
+  if (type.isIntersection()) return type.types.every(hasImplicitIndex);
+  const symbol = type.getSymbol();
+  return (
+    symbol !== undefined &&
+    (symbol.flags &
+      (TS_SYMBOL_FLAGS_TYPE_LITERAL | TS_SYMBOL_FLAGS_OBJECT_LITERAL)) !==
+      0 &&
+    type.getCallSignatures().length === 0 &&
+    type.getConstructSignatures().length === 0
+  );
+};
+
+/**
+ * Whether a property is `readonly`, mirroring the checker's own (internal)
+ * `isReadonlySymbol`.
+ */
+const isReadonlyProperty = (propSymbol: ts.Symbol): boolean => {
+  const { flags } = propSymbol;
+  if ((flags & TS_SYMBOL_FLAGS_TRANSIENT) !== 0) {
+    const { links } = propSymbol as ts.Symbol & {
+      links?: { checkFlags?: number };
+    };
+    if (((links?.checkFlags ?? 0) & TS_CHECK_FLAGS_READONLY) !== 0) {
+      return true;
+    }
+  }
+  if (
+    (flags & TS_SYMBOL_FLAGS_GET_ACCESSOR) !== 0 &&
+    (flags & TS_SYMBOL_FLAGS_SET_ACCESSOR) === 0
+  ) {
+    return true;
+  }
+  return (propSymbol.declarations ?? []).some(
+    (declaration) =>
+      (ts.getCombinedModifierFlags(declaration) &
+        TS_MODIFIER_FLAGS_READONLY) !==
+      0,
+  );
+};
+
+/**
+ * Merges the shapes of intersected {@link t.object} schemas, intersecting the
+ * schemas of properties present in several shapes.
+ */
+const mergeShapes = (
+  shapes: Record<string, TypeSchema>[],
+): Record<string, TypeSchema> => {
+  const merged: Record<string, TypeSchema> = {};
+  for (const shape of shapes) {
+    for (const [key, propSchema] of Object.entries(shape)) {
+      const existing = Object.hasOwn(merged, key) ? merged[key] : undefined;
+      merged[key] = existing
+        ? new TypeSchema({
+            ...t.intersection(existing, propSchema)._def,
+            isOptional: existing._isOptional && propSchema._isOptional,
+          })
+        : propSchema;
+    }
+  }
+  return merged;
+};
+
+/** Whether a property is keyed by a symbol, such as `[Symbol.iterator]`. */
+const isSymbolKeyed = (propSymbol: ts.Symbol): boolean =>
+  (propSymbol.escapedName as string).startsWith("__@");
+
+/** Whether the type is one of the given lib interfaces, e.g. `Map`. */
+const isLibType = (
+  { program }: SchemaContext,
+  type: Type,
+  names: readonly string[],
+): boolean => {
+  const symbol = type.getSymbol();
+  return (
+    symbol !== undefined &&
+    names.includes(symbol.getName()) &&
+    (symbol.declarations ?? []).some(
+      (declaration) =>
+        !program ||
+        program.isSourceFileDefaultLibrary(declaration.getSourceFile()),
+    )
+  );
+};
+
+/** A base type found by {@link findBaseType}. */
+type BaseType = {
+  type: ts.TypeReference;
+
+  /** The type arguments of `type`, as instantiated by the derived type. */
+  typeArguments: readonly Type[];
+};
+
+/**
+ * Finds a type matching the predicate among the type, the members of an
+ * intersection type, and the base types of a class or interface, including
+ * those of an instantiation such as `Box<number>` for
+ * `class Box<T> extends Map<string, T>`.
+ */
+const findBaseType = (
+  ctx: SchemaContext,
+  type: Type,
+  matches: (candidate: Type) => boolean,
+): BaseType | undefined => {
+  const { checker } = ctx;
+  if (matches(type)) {
+    const reference = type as ts.TypeReference;
+    return {
+      type: reference,
+      typeArguments: checker.getTypeArguments(reference),
+    };
+  }
+  if (type.isIntersection()) {
+    for (const member of type.types) {
+      const found = findBaseType(ctx, member, matches);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  const target =
+    ((type as ts.ObjectType).objectFlags & TS_OBJECT_FLAGS_REFERENCE) !== 0
+      ? (type as ts.TypeReference).target
+      : type;
+  if (!target.isClassOrInterface()) return undefined;
+  // The base types of the generic declaration refer to its type parameters,
+  // which stand for the type arguments of the instantiation. The checker does
+  // not expose instantiation, so only type arguments that are exactly a type
+  // parameter are substituted.
+  const typeParameters = target.typeParameters ?? [];
+  const typeArguments =
+    target === type ? [] : checker.getTypeArguments(type as ts.TypeReference);
+  const substitute = (argument: Type): Type => {
+    const i = typeParameters.indexOf(argument as ts.TypeParameter);
+    return i === -1 ? argument : (typeArguments[i] ?? argument);
+  };
+  for (const baseType of checker.getBaseTypes(target)) {
+    const found = findBaseType(ctx, baseType, matches);
+    if (found) {
+      return { ...found, typeArguments: found.typeArguments.map(substitute) };
+    }
+  }
+  return undefined;
+};
+
+/** How {@link checkFromSupertype} relates a schema to broader targets. */
+type SupertypeFallback = {
+  /**
+   * The global type that every type of the schema is assignable to, e.g.
+   * `ReadonlyArray` for arrays. Targets that accept its generic declaration,
+   * such as `{}` or `object`, accept any of its instantiations.
+   */
+  widest: string;
+
+  /**
+   * The schema of the elements seen through the lib interfaces in `views`,
+   * e.g. the `[K, V]` entries of a `Map` seen as an `Iterable`.
+   */
+  element?: TypeSchema;
+
+  /** Lib interfaces exposing `element`, with the path segment of each. */
+  views?: Readonly<Record<string, PathSegment>>;
+};
+
+/**
+ * Reverse check for a target that is not of the schema's own kind, such as
+ * `{}`, `object`, `Iterable<T>` or `ArrayLike<T>`. Returns `reason` when the
+ * target accepts neither the widest type of the schema nor its elements.
+ */
+const checkFromSupertype = (
+  ctx: SchemaContext,
+  self: TypeSchema,
+  target: Type,
+  reason: MismatchReason,
+  { widest, element, views = {} }: SupertypeFallback,
+): Mismatch | null => {
+  const { checker } = ctx;
+  const widestSymbol = checker.resolveName(
+    widest,
+    undefined,
+    TS_SYMBOL_FLAGS_TYPE,
+    false,
+  );
+  if (
+    widestSymbol &&
+    checker.isTypeAssignableTo(
+      checker.getDeclaredTypeOfSymbol(widestSymbol),
+      target,
+    )
+  ) {
+    return null;
+  }
+
+  const view = Object.keys(views).find((name) =>
+    isLibType(ctx, target, [name]),
+  );
+  if (element && view) {
+    const reference = target as ts.TypeReference;
+    const [typeArgument, ...others] = checker
+      .getTypeArguments(reference)
+      .slice(0, reference.target.typeParameters?.length);
+    // Other type arguments, like the return type of an `Iterable`, must not
+    // constrain the schema.
+    if (typeArgument && others.every(isTopType)) {
+      return atPath(views[view]!, element._checkFrom(typeArgument, ctx));
+    }
+  }
+  return mismatch(self, target, reason);
+};
+
+/** Builds the schemas behind {@link t.map} and {@link t.set}. */
+const libCollectionSchema = (
+  kind: "map" | "set",
+  typeArguments: [PathSegment, TypeSchema][],
+  isReadonly: boolean,
+): TypeSchema => {
+  const name = kind === "map" ? "Map" : "Set";
+  const names = [name, `Readonly${name}`];
+  const fallback: SupertypeFallback = {
+    widest: isReadonly ? `Readonly${name}` : name,
+    // Maps iterate over their `[key, value]` entries.
+    element:
+      kind === "map"
+        ? t.tuple(typeArguments.map(([, typeArgument]) => typeArgument))
+        : typeArguments[0]![1],
+    views: { Iterable: "(yield)" },
+  };
+
+  const checkTypeArguments = (
+    types: readonly Type[],
+    ctx: SchemaContext,
+    direction: "_check" | "_checkFrom",
+  ): Mismatch | null => {
+    for (const [i, [segment, typeArgument]] of typeArguments.entries()) {
+      const result = atPath(segment, typeArgument[direction](types[i]!, ctx));
+      if (result) return result;
+    }
+    return null;
+  };
+
+  return schema({
+    kind,
+    check: (type, ctx, self) =>
+      checkEachConstituent(type, (constituent) => {
+        const found = findBaseType(ctx, constituent, (candidate) =>
+          isLibType(ctx, candidate, names),
+        );
+        if (!found) return mismatch(self, constituent, "not-collection");
+        if (!isReadonly && !isLibType(ctx, found.type, [name])) {
+          return mismatch(self, constituent, "readonly-collection");
+        }
+        return checkTypeArguments(found.typeArguments, ctx, "_check");
+      }),
+    checkFrom: (type, ctx, self) =>
+      checkFromSomeConstituent(type, self, (target) => {
+        if (isTopType(target)) return null;
+        if (!isLibType(ctx, target, names)) {
+          return checkFromSupertype(
+            ctx,
+            self,
+            target,
+            "not-collection",
+            fallback,
+          );
+        }
+        if (isReadonly && isLibType(ctx, target, [name])) {
+          return mismatch(self, target, "readonly-collection");
+        }
+        return checkTypeArguments(
+          ctx.checker.getTypeArguments(target as ts.TypeReference),
+          ctx,
+          "_checkFrom",
+        );
+      }),
+    print: () =>
+      `${isReadonly ? "Readonly" : ""}${name}<${typeArguments
+        .map(([, typeArgument]) => `${typeArgument}`)
+        .join(", ")}>`,
+  });
+};
+
+/**
+ * Returns the types that a thenable resolves to: the value parameters of the
+ * `onfulfilled` callbacks of its `then` method. Mirrors the checker's own
+ * (internal) `getPromisedTypeOfPromise`.
+ */
+const getPromisedTypes = (
+  checker: TypeChecker,
+  type: Type,
+): Type[] | undefined => {
+  const thenSymbol = checker.getApparentType(type).getProperty("then");
+  const callbackTypes = (
+    thenSymbol ? checker.getTypeOfSymbol(thenSymbol).getCallSignatures() : []
+  ).flatMap((signature) => {
+    const [onfulfilled] = signature.getParameters();
+    return onfulfilled
+      ? [checker.getNonNullableType(checker.getTypeOfSymbol(onfulfilled))]
+      : [];
+  });
+  const valueTypes = callbackTypes
+    .flatMap((callbackType) => callbackType.getCallSignatures())
+    .flatMap((signature) => {
+      const [value] = signature.getParameters();
+      return value ? [checker.getTypeOfSymbol(value)] : [];
+    });
+  return valueTypes.length > 0 ? valueTypes : undefined;
+};
+
+/**
+ * Returns the types that an iterable yields, read from the `next` method of
+ * the iterators returned by its `[Symbol.iterator]` (or, for async iterables,
+ * `[Symbol.asyncIterator]`) method: the `value` of every iterator result that
+ * is not `done`.
+ */
+const getIteratedTypes = (
+  checker: TypeChecker,
+  type: Type,
+  isAsync: boolean,
+): Type[] | undefined => {
+  const prefix = isAsync ? "__@asyncIterator@" : "__@iterator@";
+  const method = checker
+    .getApparentType(type)
+    .getProperties()
+    .find((propSymbol) =>
+      (propSymbol.escapedName as string).startsWith(prefix),
+    );
+  const iteratorTypes = method
+    ? checker
+        .getTypeOfSymbol(method)
+        .getCallSignatures()
+        .map((signature) => signature.getReturnType())
+    : [];
+  if (iteratorTypes.length === 0) return undefined;
+
+  return iteratorTypes
+    .flatMap((iteratorType) => {
+      const next = iteratorType.getProperty("next");
+      return next ? checker.getTypeOfSymbol(next).getCallSignatures() : [];
+    })
+    .map((signature) => {
+      const resultType = signature.getReturnType();
+      return isAsync
+        ? (checker.getAwaitedType(resultType) ?? resultType)
+        : resultType;
+    })
+    .flatMap((resultType) =>
+      resultType.isUnion() ? resultType.types : [resultType],
+    )
+    .flatMap((resultType) => {
+      const done = resultType.getProperty("done");
+      if (
+        done &&
+        checker.isTypeAssignableTo(
+          checker.getTypeOfSymbol(done),
+          checker.getTrueType(),
+        )
+      ) {
+        return [];
+      }
+      const value = resultType.getProperty("value");
+      return value ? [checker.getTypeOfSymbol(value)] : [];
+    });
+};
+
+/**
+ * Builds the schemas behind {@link t.promise}, {@link t.thenable},
+ * {@link t.iterable} and {@link t.asyncIterable}: `getTypes` reads the
+ * values of the type, and in reverse, the type must be one of the lib
+ * interfaces in `names`.
+ */
+const protocolSchema = (
+  kind: SchemaKind,
+  inner: TypeSchema,
+  options: {
+    names: readonly [string, ...string[]];
+    reason: MismatchReason;
+    segment: PathSegment;
+    getTypes: (ctx: SchemaContext, type: Type) => Type[] | undefined;
+  },
+): TypeSchema => {
+  const { names, reason, segment, getTypes } = options;
+  return schema({
+    kind,
+    check: (type, ctx, self) =>
+      checkEachConstituent(type, (constituent) => {
+        const types = getTypes(ctx, constituent);
+        if (!types) return mismatch(self, constituent, reason);
+        for (const valueType of types) {
+          const result = atPath(segment, inner._check(valueType, ctx));
+          if (result) return result;
+        }
+        return null;
+      }),
+    checkFrom: (type, ctx, self) =>
+      checkFromSomeConstituent(type, self, (target) => {
+        if (isTopType(target)) return null;
+        if (!isLibType(ctx, target, names)) {
+          return checkFromSupertype(ctx, self, target, reason, {
+            widest: names[0],
+          });
+        }
+        const [typeArgument] = ctx.checker.getTypeArguments(
+          target as ts.TypeReference,
+        );
+        return atPath(segment, inner._checkFrom(typeArgument!, ctx));
+      }),
+    print: () => `${names[0]}<${inner}>`,
+  });
+};
+
+type TupleElement = { type: Type; isOptional: boolean; isRest: boolean };
+
+/**
+ * Returns the elements of a tuple type. The type of optional elements
+ * includes `undefined`, and the type of rest elements is their element type.
+ */
+const getTupleElements = (
+  checker: TypeChecker,
+  type: ts.TypeReference,
+): TupleElement[] => {
+  const { elementFlags } = type.target as ts.TupleType;
+  const types = checker.getTypeArguments(type);
+  return elementFlags.map((flags, i) => {
+    const elementType = types[i]!;
+    const isOptional = (flags & TS_ELEMENT_FLAGS_OPTIONAL) !== 0;
+    return {
+      type:
+        (flags & TS_ELEMENT_FLAGS_VARIADIC) !== 0
+          ? (elementType.getNumberIndexType() ?? elementType)
+          : isOptional
+            ? checker.getNullableType(elementType, TS_TYPE_FLAGS_UNDEFINED)
+            : elementType,
+      isOptional,
+      isRest: (flags & TS_ELEMENT_FLAGS_VARIABLE) !== 0,
+    };
+  });
+};
+
+/**
+ * The minimum number of elements of a tuple: its required elements, which
+ * may also follow a rest element, as in `[string, ...string[], string]`.
+ */
+const getTupleMinLength = (elements: TupleElement[]): number =>
+  elements.filter((element) => !element.isOptional && !element.isRest).length;
+
+const isReadonlyTuple = (type: Type): boolean =>
+  ((type as ts.TypeReference).target as ts.TupleType).readonly;
+
+const isReadonlyArray = (type: Type): boolean =>
+  type.getSymbol()?.getName() === "ReadonlyArray";
+
+/**
+ * Runs a reverse check against each constituent of a union type, since a
+ * schema is assignable to a union as soon as it is assignable to one of its
+ * constituents.
+ */
+const checkFromSomeConstituent = (
+  type: Type,
+  self: TypeSchema,
+  check: (constituent: Type) => Mismatch | null,
+): Mismatch | null => {
+  if (!type.isUnion()) return check(type);
+  const causes: Mismatch[] = [];
+  for (const constituent of type.types) {
+    const result = check(constituent);
+    if (!result) return null;
+    causes.push(result);
+  }
+  return { ...mismatch(self, type, "no-matching-member"), causes };
+};
+
+/** Whether every type is assignable to `type` (`any` and `unknown`). */
+const isTopType = (type: Type): boolean =>
+  (type.flags & (TS_TYPE_FLAGS_ANY | TS_TYPE_FLAGS_UNKNOWN)) !== 0;
+
+/**
+ * Returns the type that the checks judge for a {@link TypeSource}, given the
+ * `typeView` of the context. Types are returned as is.
+ *
+ * @example
+ * ```typescript
+ * // The type of the argument node, as the parameter expects it.
+ * getSourceType({ ...ctx, typeView: "contextual" }, argNode);
+ * ```
+ *
+ * @throws When the view is `"contextual"` and the node is not an expression
+ * with a contextual type.
+ * @throws When the source is a signature and the checker does not expose the
+ * factories to build its function type (see {@link compileSchema}).
+ */
+export function getSourceType(ctx: SchemaContext, source: TypeSource): Type {
+  const { checker, typeView = "narrowed" } = ctx;
+  if (isSignature(source)) {
+    if (!hasTypeFactories(checker)) {
+      throw new Error(
+        "getSourceType(): this TypeScript version cannot build signature types.",
+      );
+    }
+    return createObjectType(checker, new Map(), [source]);
+  }
+  if (isSymbol(source)) return getDeclaredTypeOf(checker, source);
+  if (!isNode(source)) return source;
+
+  switch (typeView) {
+    case "declared": {
+      const name = ts.getNameOfDeclaration(source as ts.Declaration) ?? source;
+      const symbol = checker.getSymbolAtLocation(name);
+      return symbol
+        ? getDeclaredTypeOf(checker, symbol)
+        : checker.getTypeAtLocation(source);
+    }
+    case "narrowed":
+      return checker.getTypeAtLocation(source);
+    case "contextual": {
+      const contextualType = ts.isExpression(source)
+        ? checker.getContextualType(source)
+        : undefined;
+      if (!contextualType) {
+        throw new Error("getSourceType(): the node has no contextual type.");
+      }
+      return contextualType;
+    }
+  }
+}
+
+const isNode = (source: TypeSource): source is ts.Node =>
+  typeof (source as Partial<ts.Node>).kind === "number";
+
+// Checks a method, since `unique symbol` types also have an `escapedName`.
+const isSymbol = (source: TypeSource): source is ts.Symbol =>
+  typeof (source as Partial<ts.Symbol>).getEscapedName === "function";
+
+const isSignature = (source: TypeSource): source is Signature =>
+  typeof (source as Partial<Signature>).getReturnType === "function";
+
+/**
+ * Returns the type that a symbol was declared with: the type of a value, or
+ * else the declared type of a type, after resolving aliases such as imports.
+ */
+const getDeclaredTypeOf = (checker: TypeChecker, symbol: ts.Symbol): Type => {
+  const target = resolveAlias(checker, symbol);
+  return (target.flags & TS_SYMBOL_FLAGS_VALUE) !== 0
+    ? checker.getTypeOfSymbol(target)
+    : checker.getDeclaredTypeOfSymbol(target);
+};
+
+/**
+ * Returns `true` if the given TypeScript type is assignable to the schema–in
+ * other words, if `type extends T` with `T` the TypeScript type represented
+ * by the schema.
+ *
+ * Like the other checks, also takes a node, symbol or signature in place of
+ * the type (see {@link TypeSource}), and checks the type that the `typeView`
+ * of the context selects.
+ *
+ * @throws In the same cases as {@link getSourceType}.
+ */
+export function isAssignableTo(
+  ctx: SchemaContext,
+  source: TypeSource,
+  schema: TypeSchema,
+): boolean {
+  return schema._check(getSourceType(ctx, source), ctx) === null;
+}
+
+/**
+ * Returns `true` if the type represented by the schema is assignable to the
+ * given TypeScript type–in other words, if a value of the schema type can be
+ * passed where `type` is expected. This is the check that {@link t.function}
+ * performs on parameters. Arrays, tuples, collections, promises, iterables,
+ * generators and functions are also assignable to broader types, such as
+ * `{}`, `object`, `Function`, `Iterable<T>` or `ArrayLike<T>`.
+ *
+ * @example
+ * ```typescript
+ * // Does the callback parameter accept at least `{ x: number }`?
+ * isAssignableFrom(ctx, paramType, t.object({ x: t.number() }));
+ * ```
+ *
+ * @throws When the schema contains a {@link t.custom} schema without an
+ * `acceptsFrom` predicate.
+ */
+export function isAssignableFrom(
+  ctx: SchemaContext,
+  source: TypeSource,
+  schema: TypeSchema,
+): boolean {
+  return schema._checkFrom(getSourceType(ctx, source), ctx) === null;
+}
+
+/**
+ * Returns `true` if the given TypeScript type and the schema are mutually
+ * assignable, i.e. both {@link isAssignableTo} and {@link isAssignableFrom}
+ * hold. Useful to require exactly the type a schema describes.
+ *
+ * @throws In the same cases as {@link isAssignableFrom}.
+ */
+export function isEquivalentTo(
+  ctx: SchemaContext,
+  source: TypeSource,
+  schema: TypeSchema,
+): boolean {
+  const type = getSourceType(ctx, source);
+  return (
+    isAssignableTo(ctx, type, schema) && isAssignableFrom(ctx, type, schema)
+  );
+}
+
+/** Counters returned by {@link getCacheStats}. */
+export type CacheStats = { hits: number; misses: number };
+
+/**
+ * Returns how many schema checks were answered from the per-checker cache
+ * (`hits`) or computed (`misses`), for profiling. Nested schemas count as
+ * separate checks.
+ */
+export function getCacheStats(checker: TypeChecker): CacheStats {
+  const { hits, misses } = getCheckerCache(checker);
+  return { hits, misses };
+}
+
+/**
+ * Like {@link isAssignableTo}, but explains why the type is not assignable to
+ * the schema. Useful for writing precise lint messages.
+ *
+ * @example
+ * ```typescript
+ * const result = explain(ctx, argType, Rectangle);
+ * if (!result.ok) {
+ *   // e.g. path: ["width"], reason: "optional-property"
+ *   context.report({ node, message: `${result.path.join(".")}: ${result.reason}` });
+ * }
+ * ```
+ */
+export function explain(
+  ctx: SchemaContext,
+  source: TypeSource,
+  schema: TypeSchema,
+): ExplainResult {
+  const type = getSourceType(ctx, source);
+  const reportedBefore = reportedAnySources;
+  const result = schema._check(type, ctx);
+  if (result) return { ok: false, ...result };
+  const anySource =
+    reportedAnySources === reportedBefore
+      ? undefined
+      : findAnySource(ctx, type, schema);
+  return anySource ? { ok: true, anySource } : { ok: true };
+}
+
+/**
+ * Like {@link explain}, but also returns the types matched by each
+ * {@link t.capture} in the schema, so that rules can inspect them further
+ * without walking the type again.
+ *
+ * If a capture matches more than once, e.g. inside a union schema matched
+ * by each constituent of a union type, the first match is kept.
+ *
+ * @example
+ * ```typescript
+ * const result = match(ctx, argType, t.tuple([t.string(), t.capture("options", t.object({}))]));
+ * if (result.ok && result.captures.options) {
+ *   checker.getPropertiesOfType(result.captures.options);
+ * }
+ * ```
+ */
+export function match(
+  ctx: SchemaContext,
+  source: TypeSource,
+  schema: TypeSchema,
+): MatchResult {
+  const type = getSourceType(ctx, source);
+  const outerCaptures = currentCaptures;
+  const captures: [name: string, type: Type][] = [];
+  const reportedBefore = reportedAnySources;
+  currentCaptures = captures;
+  try {
+    const result = schema._check(type, ctx);
+    if (result) return { ok: false, ...result };
+    const byName: Partial<Record<string, Type>> = {};
+    for (const [name, capturedType] of captures) {
+      byName[name] ??= capturedType;
+    }
+    const anySource =
+      reportedAnySources === reportedBefore
+        ? undefined
+        : findAnySource(ctx, type, schema);
+    return anySource
+      ? { ok: true, captures: byName, anySource }
+      : { ok: true, captures: byName };
+  } finally {
+    currentCaptures = outerCaptures;
+  }
+}
+
+/** The result of {@link explainVariants} for a constituent of the type. */
+export type VariantResult = {
+  /** The constituent of the type. */
+  type: Type;
+
+  /**
+   * The value of its discriminant, or `undefined` when the discriminant is
+   * missing or not a string literal.
+   */
+  variant: string | undefined;
+
+  /** Whether the constituent satisfies its variant, as {@link explain} tells. */
+  result: ExplainResult;
+};
+
+/**
+ * Like {@link explain} for a {@link t.discriminatedUnion}, but returns the
+ * result of each constituent of the type (a single one when the type is not
+ * a union), so that rules can report every unhandled or invalid variant.
+ *
+ * @example
+ * ```typescript
+ * for (const { variant, result } of explainVariants(ctx, shapeType, Shape)) {
+ *   if (!result.ok && result.reason === "unhandled-variant") {
+ *     context.report({ node, message: `Variant \`${variant}\` is not accepted.` });
+ *   }
+ * }
+ * ```
+ *
+ * @throws When the schema is not a {@link t.discriminatedUnion}.
+ */
+export function explainVariants(
+  ctx: SchemaContext,
+  source: TypeSource,
+  schema: TypeSchema,
+): VariantResult[] {
+  const { discriminant } = schema._def;
+  if (discriminant === undefined) {
+    throw new Error(
+      "explainVariants() expects a t.discriminatedUnion() schema.",
+    );
+  }
+  const type = getSourceType(ctx, source);
+  return (type.isUnion() ? type.types : [type]).map((constituent) => {
+    const propSymbol = constituent.getProperty(discriminant);
+    const value = propSymbol && ctx.checker.getTypeOfSymbol(propSymbol);
+    return {
+      type: constituent,
+      variant: value?.isStringLiteral() ? value.value : undefined,
+      result: explain(ctx, constituent, schema),
+    };
+  });
+}
+
+/**
+ * Returns the compiler type that the schema represents, built with the
+ * checker's own type factories, or `undefined` if the schema has no exact
+ * equivalent (see {@link t.compiled}). Results are cached per checker.
+ *
+ * @example
+ * ```typescript
+ * const target = compileSchema(ctx, t.object({ x: t.number() }));
+ * if (target) checker.typeToString(target); // "{ x: number; }"
+ * ```
+ *
+ * @throws When the schema refers to module exports that cannot be resolved,
+ * as documented on {@link t.fromModule}.
+ */
+export function compileSchema(
+  ctx: SchemaContext,
+  schema: TypeSchema,
+): Type | undefined {
+  if (!hasTypeFactories(ctx.checker)) return undefined;
+
+  let bySourceFile = compiledSchemaCache.get(ctx.checker);
+  if (!bySourceFile) {
+    bySourceFile = new Map();
+    compiledSchemaCache.set(ctx.checker, bySourceFile);
+  }
+  let byHost = bySourceFile.get(ctx.sourceFile);
+  if (!byHost) {
+    byHost = new Map();
+    bySourceFile.set(ctx.sourceFile, byHost);
+  }
+  let cache = byHost.get(ctx.moduleResolutionHost);
+  if (!cache) {
+    cache = new WeakMap();
+    byHost.set(ctx.moduleResolutionHost, cache);
+  }
+
+  if (!cache.has(schema)) {
+    const compiled = new Map<TypeSchema, Type>();
+    const inProgress = new Set<TypeSchema>();
+    const compiler: Compiler = {
+      ctx,
+      compile: (nested) => {
+        const existing = compiled.get(nested);
+        if (existing) return existing;
+        // A cycle that does not go through an object type.
+        if (inProgress.has(nested)) return undefined;
+        inProgress.add(nested);
+        try {
+          const type = nested._def.compile?.(compiler, nested);
+          if (type) compiled.set(nested, type);
+          return type;
+        } finally {
+          inProgress.delete(nested);
+        }
+      },
+      declare: (nested, type) => compiled.set(nested, type),
+    };
+    cache.set(schema, compiler.compile(schema) ?? null);
+  }
+  return cache.get(schema) ?? undefined;
+}
+
+/** Options for {@link t.parse}. */
+export type ParseOptions = {
+  /**
+   * The module each type name used in the text is imported from, as in an
+   * `import` statement, e.g. `{ BaseWindow: "electron" }`.
+   */
+  imports?: Record<string, string>;
+};
+
+/**
+ * Describes a call or construct signature for {@link t.function},
+ * {@link t.method} and {@link t.newable}.
+ */
+export type SignatureShape = {
+  /** Parameter schemas, in order. Mark trailing ones `.optional()`. */
+  params?: TypeSchema[];
+
+  /** Element schema of the rest parameter, e.g. `t.string()` for `...args: string[]`. */
+  rest?: TypeSchema;
+
+  /** Return type schema. Defaults to `t.unknown()`. */
+  returns?: TypeSchema;
+};
+
+/** Describes the type arguments of a {@link t.generator}. */
+export type GeneratorShape = {
+  /** Schema of the yielded values. Defaults to `t.unknown()`. */
+  yields?: TypeSchema;
+
+  /** Schema of the returned value. Defaults to `t.unknown()`. */
+  returns?: TypeSchema;
+
+  /**
+   * Schema of the values passed to `next()`, checked in the opposite
+   * direction. Defaults to `t.any()`, which accepts any generator.
+   */
+  next?: TypeSchema;
+};
+
+type SignatureKind = "call" | "construct";
+
+const getSignatures = (type: Type, kind: SignatureKind) =>
+  kind === "call" ? type.getCallSignatures() : type.getConstructSignatures();
+
+/** Whether a parameter symbol was declared with `...`. */
+const isRestParameter = (param: ts.Symbol): boolean => {
+  const declaration = param.valueDeclaration;
+  return (
+    declaration !== undefined &&
+    ts.isParameter(declaration) &&
+    declaration.dotDotDotToken !== undefined
+  );
+};
+
+/** Whether a parameter symbol was declared with `?` or an initializer. */
+const isOptionalParameter = (
+  checker: TypeChecker,
+  param: ts.Symbol,
+): boolean => {
+  const declaration = param.valueDeclaration;
+  return (
+    declaration !== undefined &&
+    ts.isParameter(declaration) &&
+    checker.isOptionalParameter(declaration)
+  );
+};
+
+/**
+ * Splits the parameters of a signature into its fixed parameter types, the
+ * element type of its rest parameter, and its minimum argument count.
+ */
+const getParameterTypes = (checker: TypeChecker, signature: Signature) => {
+  const params = signature.getParameters();
+  const last = params.at(-1);
+  const rest = last && isRestParameter(last) ? last : undefined;
+  const fixed = rest ? params.slice(0, -1) : params;
+  return {
+    fixed: fixed.map((param) => checker.getTypeOfSymbol(param)),
+    rest: rest && checker.getTypeOfSymbol(rest).getNumberIndexType(),
+    minArgumentCount:
+      fixed.findLastIndex((param) => !isOptionalParameter(checker, param)) + 1,
+  };
+};
+
+/** Whether parameters should be compared bivariantly in this program. */
+const hasBivariantParameters = ({ program }: SchemaContext): boolean => {
+  if (!program) return false;
+  const { strict, strictFunctionTypes } = program.getCompilerOptions();
+  return !(strictFunctionTypes ?? strict ?? false);
+};
+
+/**
+ * Pairs up the parameter positions of a signature with the schemas of a
+ * {@link SignatureShape}, including the rest parameters of both.
+ */
+const pairParameters = (
+  { params = [], rest }: SignatureShape,
+  types: ReturnType<typeof getParameterTypes>,
+): [PathSegment, TypeSchema, Type][] => {
+  const pairs: [PathSegment, TypeSchema, Type][] = [];
+  const count = Math.max(params.length, types.fixed.length);
+  for (let i = 0; i < count; i++) {
+    const paramSchema = params[i] ?? rest;
+    const paramType = types.fixed[i] ?? types.rest;
+    if (paramSchema && paramType) {
+      pairs.push([`(param ${i})`, paramSchema, paramType]);
+    }
+  }
+  if (rest && types.rest) pairs.push(["(rest)", rest, types.rest]);
+  return pairs;
+};
+
+/**
+ * Checks that a single signature of `type` is assignable to the described
+ * signature.
+ */
+const checkSignature = (
+  type: Type,
+  signature: Signature,
+  shape: SignatureShape,
+  ctx: SchemaContext,
+  self: TypeSchema,
+  bivariant: boolean,
+): Mismatch | null => {
+  const { checker } = ctx;
+  const types = getParameterTypes(checker, signature);
+
+  if (!shape.rest && types.minArgumentCount > (shape.params?.length ?? 0)) {
+    return mismatch(self, type, "too-many-parameters");
+  }
+
+  for (const [segment, paramSchema, paramType] of pairParameters(
+    shape,
+    types,
+  )) {
+    const result = paramSchema._checkFrom(paramType, ctx);
+    if (!result) continue;
+    if (bivariant && !paramSchema._check(paramType, ctx)) continue;
+    return atPath(segment, result);
+  }
+
+  if (shape.returns && shape.returns._def.kind !== "void") {
+    const returnType = checker.getReturnTypeOfSignature(signature);
+    return atPath("(return)", shape.returns._check(returnType, ctx));
+  }
+  return null;
+};
+
+/**
+ * Checks that the described signature is assignable to a single signature of
+ * `type`. This mirrors {@link checkSignature} with every comparison flipped.
+ */
+const checkSignatureFrom = (
+  type: Type,
+  signature: Signature,
+  shape: SignatureShape,
+  ctx: SchemaContext,
+  self: TypeSchema,
+  bivariant: boolean,
+): Mismatch | null => {
+  const { checker } = ctx;
+  const types = getParameterTypes(checker, signature);
+
+  const minArgumentCount =
+    (shape.params ?? []).findLastIndex((param) => !param._isOptional) + 1;
+  if (!types.rest && minArgumentCount > types.fixed.length) {
+    return mismatch(self, type, "too-many-parameters");
+  }
+
+  for (const [segment, paramSchema, paramType] of pairParameters(
+    shape,
+    types,
+  )) {
+    const result = paramSchema._check(paramType, ctx);
+    if (!result) continue;
+    if (bivariant && !paramSchema._checkFrom(paramType, ctx)) continue;
+    return atPath(segment, result);
+  }
+
+  const returnType = checker.getReturnTypeOfSignature(signature);
+  if ((returnType.flags & TS_TYPE_FLAGS_VOID) !== 0) return null;
+  return atPath(
+    "(return)",
+    (shape.returns ?? t.unknown())._checkFrom(returnType, ctx),
+  );
+};
+
+const printSignature = (
+  kind: SignatureKind,
+  { params = [], rest, returns }: SignatureShape,
+): string => {
+  const printed = params.map(
+    (param, i) =>
+      `arg${i}${param._isOptional ? "?" : ""}: ${printOperand(param, Precedence.Function)}`,
+  );
+  if (rest) {
+    printed.push(`...rest: ${printOperand(rest, Precedence.Primary)}[]`);
+  }
+  const prefix = kind === "construct" ? "new " : "";
+  return `${prefix}(${printed.join(", ")}) => ${returns ?? "unknown"}`;
+};
+
+/** Builds the schemas behind {@link t.function}, {@link t.method} and {@link t.newable}. */
+const signatureSchema = (
+  kind: SignatureKind,
+  shape: SignatureShape,
+  isMethod: boolean,
+): TypeSchema =>
+  schema({
+    kind: "function",
+    check: (type, ctx, self) => {
+      const signatures = getSignatures(type, kind);
+      if (signatures.length === 0) return mismatch(self, type, "not-callable");
+
+      const bivariant = isMethod || hasBivariantParameters(ctx);
+      const causes: Mismatch[] = [];
+      for (const signature of signatures) {
+        const result = checkSignature(
+          type,
+          signature,
+          shape,
+          ctx,
+          self,
+          bivariant,
+        );
+        if (!result) return null;
+        causes.push(result);
+      }
+      return causes.length === 1
+        ? causes[0]!
+        : { ...mismatch(self, type, "no-matching-signature"), causes };
+    },
+    checkFrom: (type, ctx, self) =>
+      checkFromSomeConstituent(type, self, (target) => {
+        if (isTopType(target)) return null;
+        const signatures = getSignatures(target, kind);
+        if (signatures.length === 0) {
+          return checkFromSupertype(ctx, self, target, "not-callable", {
+            widest: "Function",
+          });
+        }
+
+        // Overloads of the target must all be satisfied by the schema.
+        const bivariant = isMethod || hasBivariantParameters(ctx);
+        for (const signature of signatures) {
+          const result = checkSignatureFrom(
+            target,
+            signature,
+            shape,
+            ctx,
+            self,
+            bivariant,
+          );
+          if (result) return result;
+        }
+        return null;
+      }),
+    print: () => printSignature(kind, shape),
+    precedence: Precedence.Function,
+    compile: (compiler) => {
+      const signature = compileSignature(compiler, shape, isMethod);
+      return (
+        signature &&
+        createObjectType(
+          compiler.ctx.checker,
+          new Map(),
+          kind === "call" ? [signature] : [],
+          kind === "construct" ? [signature] : [],
+        )
+      );
+    },
+  });
+
+/**
+ * A string type split into single characters, with non-literal parts (e.g.
+ * the `${number}` of a template literal type) kept as types.
+ */
+type TemplateToken = string | Type;
+
+/**
+ * Tokenizes a string literal, template literal or string type, or returns
+ * `null` for types that are not strings.
+ */
+const tokenizeTemplate = (type: Type): TemplateToken[] | null => {
+  if (type.isStringLiteral()) return [...type.value];
+  if ((type.flags & TS_TYPE_FLAGS_TEMPLATE_LITERAL) !== 0) {
+    const { texts, types } = type as ts.TemplateLiteralType;
+    return types.reduce<TemplateToken[]>(
+      (tokens, hole, i) => [...tokens, hole, ...texts[i + 1]!],
+      [...texts[0]!],
+    );
+  }
+  if (
+    (type.flags & (TS_TYPE_FLAGS_STRING | TS_TYPE_FLAGS_STRING_MAPPING)) !==
+    0
+  ) {
+    return [type];
+  }
+  return null;
+};
+
+/**
+ * Whether a run of tokens fits a {@link t.templateLiteral} hole: literal text
+ * must match the hole schema, and non-literal parts can only fill a
+ * `t.string()` hole or a hole they are assignable to.
+ */
+const matchesHole = (
+  hole: TypeSchema,
+  tokens: TemplateToken[],
+  ctx: SchemaContext | undefined,
+): boolean => {
+  if (tokens.every((token) => typeof token === "string")) {
+    return hole._def.matchText?.(tokens.join("")) ?? false;
+  }
+  if (hole._def.kind === "string") return true;
+  return (
+    ctx !== undefined &&
+    tokens.length === 1 &&
+    !hole._check(tokens[0] as Type, ctx)
+  );
+};
+
+/**
+ * Matches tokens against the parts of a {@link t.templateLiteral}. `ctx` is
+ * only needed when some tokens are types.
+ */
+const matchTemplate = (
+  parts: readonly (string | TypeSchema)[],
+  tokens: TemplateToken[],
+  ctx?: SchemaContext,
+): boolean => {
+  const matchFrom = (partIndex: number, tokenIndex: number): boolean => {
+    const part = parts[partIndex];
+    if (part === undefined) return tokenIndex === tokens.length;
+
+    if (typeof part === "string") {
+      const chars = [...part];
+      return (
+        chars.every((char, i) => tokens[tokenIndex + i] === char) &&
+        matchFrom(partIndex + 1, tokenIndex + chars.length)
+      );
+    }
+
+    for (let end = tokenIndex; end <= tokens.length; end++) {
+      if (
+        matchesHole(part, tokens.slice(tokenIndex, end), ctx) &&
+        matchFrom(partIndex + 1, end)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  };
+  return matchFrom(0, 0);
+};
+
+/** Whether `text` fits a `${number}` template literal hole. */
+const isNumberText = (text: string): boolean =>
+  text !== "" && Number.isFinite(+text);
+
+/** Whether `text` fits a `${bigint}` template literal hole. */
+const isBigIntText = (text: string): boolean => /^-?\d+$/.test(text);
+
+/**
+ * Whether every string of a run of {@link t.templateLiteral} parts, split
+ * into characters and hole schemas, fits a hole of a template literal type:
+ * a `${string}` hole takes any run, and other holes take literal text of
+ * their kind or a single hole schema assignable to them.
+ */
+const fillsTargetHole = (
+  hole: Type,
+  run: readonly (string | TypeSchema)[],
+  ctx: SchemaContext,
+): boolean => {
+  if ((hole.flags & TS_TYPE_FLAGS_STRING) !== 0) return true;
+  if (run.every((token) => typeof token === "string")) {
+    const text = run.join("");
+    if ((hole.flags & TS_TYPE_FLAGS_NUMBER) !== 0) return isNumberText(text);
+    return (hole.flags & TS_TYPE_FLAGS_BIGINT) !== 0 && isBigIntText(text);
+  }
+  const [part] = run;
+  return (
+    run.length === 1 && typeof part !== "string" && !part!._checkFrom(hole, ctx)
+  );
+};
+
+/**
+ * Matches the parts of a {@link t.templateLiteral} against the tokens of a
+ * template literal type that every string of the schema must fit, for the
+ * reverse checks.
+ */
+const matchTemplateFrom = (
+  parts: readonly (string | TypeSchema)[],
+  tokens: TemplateToken[],
+  ctx: SchemaContext,
+): boolean => {
+  const partTokens = parts.flatMap<string | TypeSchema>((part) =>
+    typeof part === "string" ? [...part] : [part],
+  );
+  const matchFrom = (partIndex: number, tokenIndex: number): boolean => {
+    const token = tokens[tokenIndex];
+    if (token === undefined) return partIndex === partTokens.length;
+    if (typeof token === "string") {
+      return (
+        partTokens[partIndex] === token &&
+        matchFrom(partIndex + 1, tokenIndex + 1)
+      );
+    }
+    for (let end = partIndex; end <= partTokens.length; end++) {
+      if (
+        fillsTargetHole(token, partTokens.slice(partIndex, end), ctx) &&
+        matchFrom(end, tokenIndex + 1)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  };
+  return matchFrom(0, 0);
+};
+
+/**
+ * Prints a schema as TypeScript type syntax, e.g.
+ * `{ x: number; y: number; label?: string | undefined }` or
+ * `import("electron").BaseWindow`. Equivalent to `schema.toString()`.
+ */
+export function printSchema(schema: TypeSchema): string {
+  return schema.toString();
+}
+
+/**
+ * Schema builder namespace.
+ */
+export const t = {
+  /** Represents the `number` type. */
+  number: (): TypeSchema =>
+    assignableTo("number", (checker) => checker.getNumberType(), {
+      matchText: isNumberText,
+    }),
+
+  /** Represents the `string` type. */
+  string: (): TypeSchema =>
+    assignableTo("string", (checker) => checker.getStringType(), {
+      matchText: () => true,
+    }),
+
+  /** Represents the `boolean` type. */
+  boolean: (): TypeSchema =>
+    assignableTo("boolean", (checker) => checker.getBooleanType(), {
+      matchText: (text) => text === "true" || text === "false",
+    }),
+
+  /** Represents the `bigint` type. */
+  bigint: (): TypeSchema =>
+    assignableTo("bigint", (checker) => checker.getBigIntType(), {
+      matchText: isBigIntText,
+    }),
+
+  /** Represents the `symbol` type, which includes `unique symbol` types. */
+  symbol: (): TypeSchema =>
+    assignableTo("symbol", (checker) => checker.getESSymbolType()),
+
+  /**
+   * Represents any `unique symbol` type, i.e. the type of a `const` declared
+   * with a `Symbol()` call, or of a well-known symbol such as
+   * `Symbol.iterator`. Rejects the general `symbol` type.
+   */
+  uniqueSymbol: (): TypeSchema =>
+    schema({
+      kind: "uniqueSymbol",
+      check: (type, _ctx, self) =>
+        checkEachConstituent(type, (constituent) =>
+          (constituent.flags & TS_TYPE_FLAGS_UNIQUE_ES_SYMBOL) !== 0
+            ? null
+            : mismatch(self, constituent, "not-assignable"),
+        ),
+      checkFrom: (type, { checker }, self) =>
+        checker.isTypeAssignableTo(checker.getESSymbolType(), type)
+          ? null
+          : mismatch(self, type, "not-assignable"),
+      print: () => "unique symbol",
+    }),
+
+  /** Represents the `void` type. */
+  void: (): TypeSchema =>
+    assignableTo("void", (checker) => checker.getVoidType()),
+
+  /** Represents the `undefined` type. */
+  undefined: (): TypeSchema =>
+    assignableTo("undefined", (checker) => checker.getUndefinedType(), {
+      matchText: (text) => text === "undefined",
+    }),
+
+  /** Represents the `null` type. */
+  null: (): TypeSchema =>
+    assignableTo("null", (checker) => checker.getNullType(), {
+      matchText: (text) => text === "null",
+    }),
+
+  /**
+   * Represents the `never` type, and only matches `never` itself (whereas
+   * `t.union()` matches nothing). Useful to check that a union was narrowed
+   * down exhaustively.
+   */
+  never: (): TypeSchema =>
+    schema({
+      kind: "never",
+      check: (type, _ctx, self) =>
+        (type.flags & TS_TYPE_FLAGS_NEVER) !== 0
+          ? null
+          : mismatch(self, type, "not-assignable"),
+      checkFrom: () => null,
+      print: () => "never",
+      compile: ({ ctx }) => ctx.checker.getNeverType(),
+    }),
+
+  /**
+   * Represents the non-primitive `object` type: objects, arrays and
+   * functions, but not `string`, `number`, `bigint`, `boolean`, `symbol`,
+   * `null` or `undefined`.
+   */
+  nonPrimitive: (): TypeSchema =>
+    assignableTo("nonPrimitive", (checker) => checker.getNonPrimitiveType(), {
+      print: () => "object",
+    }),
+
+  /**
+   * Represents the `any` type. Useful as a placeholder in object schemas when
+   * you care about a property's existence but not its type.
+   */
+  any: (): TypeSchema =>
+    schema({
+      kind: "any",
+      check: () => null,
+      checkFrom: () => null,
+      print: () => "any",
+      acceptsAnySource: () => true,
+      compile: ({ ctx }) => ctx.checker.getAnyType(),
+    }),
+
+  /**
+   * Represents the `any` type itself: unlike {@link t.any}, only accepts
+   * source types that are `any`, e.g. to find untyped values.
+   */
+  anyType: (): TypeSchema =>
+    schema({
+      kind: "any",
+      check: (type, _ctx, self) =>
+        (type.flags & TS_TYPE_FLAGS_ANY) !== 0
+          ? null
+          : mismatch(self, type, "not-any"),
+      checkFrom: (type, { checker }, self) =>
+        checker.isTypeAssignableTo(checker.getAnyType(), type)
+          ? null
+          : mismatch(self, type, "not-assignable"),
+      print: () => "any",
+      acceptsAnySource: () => true,
+    }),
+
+  /**
+   * Represents the `unknown` type. Semantically identical to `t.any()` as a
+   * predicate, but communicates intent differently in your schema.
+   */
+  unknown: (): TypeSchema =>
+    schema({
+      kind: "unknown",
+      check: () => null,
+      checkFrom: (type, { checker }, self) =>
+        checker.isTypeAssignableTo(checker.getUnknownType(), type)
+          ? null
+          : mismatch(self, type, "not-assignable"),
+      print: () => "unknown",
+      acceptsAnySource: () => true,
+      compile: ({ ctx }) => ctx.checker.getUnknownType(),
+    }),
+
+  /**
+   * Represents the global `Function` type, which any function, class or
+   * other type with call or construct signatures is assignable to. Use
+   * {@link t.function} to also check the signature.
+   */
+  callable: (): TypeSchema => t.global("Function"),
+
+  /**
+   * Represents the global `Date` type. Like the other lib classes, it is a
+   * {@link t.global} schema, so `t.instanceOf(t.date())` is its nominal
+   * counterpart.
+   */
+  date: (): TypeSchema => t.global("Date"),
+
+  /** Represents the global `RegExp` type. */
+  regExp: (): TypeSchema => t.global("RegExp"),
+
+  /**
+   * Represents the global `Error` type. Use `t.instanceOf(t.error())` to
+   * only match `Error` and the classes that extend it.
+   */
+  error: (): TypeSchema => t.global("Error"),
+
+  /**
+   * Represents a literal type, e.g. `"click"`, `42` or `true`.
+   *
+   * @example
+   * ```typescript
+   * const Click = t.literal("click");
+   * ```
+   */
+  literal: (value: string | number | boolean): TypeSchema =>
+    assignableTo(
+      "literal",
+      (checker) =>
+        typeof value === "string"
+          ? checker.getStringLiteralType(value)
+          : typeof value === "number"
+            ? checker.getNumberLiteralType(value)
+            : value
+              ? checker.getTrueType()
+              : checker.getFalseType(),
+      {
+        print: () =>
+          typeof value === "string" ? JSON.stringify(value) : String(value),
+        matchText: (text) => text === String(value),
+      },
+    ),
+
+  /**
+   * Represents a union of literal types, like Zod's `z.enum()`. For enums
+   * declared in the analyzed program, see {@link t.enumFromModule}.
+   *
+   * @example
+   * ```typescript
+   * const Method = t.enum(["GET", "POST"]); // "GET" | "POST"
+   * ```
+   */
+  enum: (values: readonly (string | number)[]): TypeSchema =>
+    t.union(...values.map((value) => t.literal(value))),
+
+  /**
+   * Represents a template literal type. String parts are matched literally,
+   * and schema parts act as holes: `t.string()`, `t.number()`,
+   * `t.boolean()`, `t.null()`, `t.undefined()`, `t.literal()`, and unions of
+   * those. Matches string literal types, and template literal types whose
+   * holes fit the holes of the schema. In reverse, it is assignable to
+   * template literal types whose holes take the parts of the schema.
+   *
+   * @example
+   * ```typescript
+   * const EventHandlerName = t.templateLiteral(["on", t.string()]); // `on${string}`
+   * ```
+   *
+   * @throws When a part is a schema that cannot be used in a hole.
+   */
+  templateLiteral: (parts: readonly (string | TypeSchema)[]): TypeSchema => {
+    for (const part of parts) {
+      if (typeof part !== "string" && !part._def.matchText) {
+        throw new Error(
+          `t.templateLiteral(): \`${part}\` cannot be used in a template literal hole.`,
+        );
+      }
+    }
+    return schema({
+      kind: "templateLiteral",
+      check: (type, ctx, self) => {
+        for (const constituent of type.isUnion() ? type.types : [type]) {
+          const tokens = tokenizeTemplate(constituent);
+          if (!tokens || !matchTemplate(parts, tokens, ctx)) {
+            return mismatch(self, constituent, "not-assignable");
+          }
+        }
+        return null;
+      },
+      checkFrom: (type, ctx, self) => {
+        const { checker } = ctx;
+        // Without holes, the template is a single string literal type.
+        if (parts.every((part) => typeof part === "string")) {
+          return checker.isTypeAssignableTo(
+            checker.getStringLiteralType(parts.join("")),
+            type,
+          )
+            ? null
+            : mismatch(self, type, "not-assignable");
+        }
+        return checkFromSomeConstituent(type, self, (target) => {
+          if (checker.isTypeAssignableTo(checker.getStringType(), target)) {
+            return null;
+          }
+          const tokens =
+            (target.flags & TS_TYPE_FLAGS_TEMPLATE_LITERAL) !== 0
+              ? tokenizeTemplate(target)
+              : null;
+          return tokens && matchTemplateFrom(parts, tokens, ctx)
+            ? null
+            : mismatch(self, target, "not-assignable");
+        });
+      },
+      print: () => {
+        const printed = parts.map((part) =>
+          typeof part === "string"
+            ? part.replace(/\\|`|\$\{/g, (match) => `\\${match}`)
+            : `\${${part}}`,
+        );
+        return `\`${printed.join("")}\``;
+      },
+      matchText: (text) => matchTemplate(parts, [...text]),
+    });
+  },
+
+  /**
+   * Represents an object type with the specified shape. Each property must be
+   * present and non-optional unless its schema was marked `.optional()`.
+   *
+   * Extra properties are allowed (structural subtyping), consistent with
+   * TypeScript's own assignability rules, unless `strict` is set (see
+   * {@link TypeSchema.strict}). Properties marked `.readonly()` or
+   * `.mutable()` must have the matching `readonly` modifier.
+   *
+   * @example
+   * ```typescript
+   * const Point = t.object({
+   *   x: t.number(),
+   *   y: t.number(),
+   *   label: t.string().optional(),
+   * });
+   * ```
+   */
+  object: (
+    shape: Record<string, TypeSchema>,
+    options: { strict?: boolean } = {},
+  ): TypeSchema =>
+    schema({
+      kind: "object",
+      shape,
+      isStrict: options.strict,
+      check: (type, ctx, self) => {
+        for (const [key, propSchema] of Object.entries(shape)) {
+          const propSymbol = type.getProperty(key);
+
+          if (!propSymbol) {
+            if (propSchema._isOptional) continue;
+            return {
+              ...mismatch(propSchema, type, "missing-property"),
+              path: [key],
+            };
+          }
+
+          const propType = ctx.checker.getTypeOfSymbol(propSymbol);
+
+          if (
+            !propSchema._isOptional &&
+            (propSymbol.flags & TS_SYMBOL_FLAGS_OPTIONAL) !== 0
+          ) {
+            return {
+              ...mismatch(propSchema, propType, "optional-property"),
+              path: [key],
+            };
+          }
+
+          if (
+            propSchema._isReadonly !== undefined &&
+            propSchema._isReadonly !== isReadonlyProperty(propSymbol)
+          ) {
+            return {
+              ...mismatch(
+                propSchema,
+                propType,
+                propSchema._isReadonly
+                  ? "mutable-property"
+                  : "readonly-property",
+              ),
+              path: [key],
+            };
+          }
+
+          const result = atPath(key, propSchema._check(propType, ctx));
+          if (result) return result;
+        }
+
+        if (!options.strict) return null;
+        return checkEachConstituent(type, (constituent) => {
+          const { checker } = ctx;
+          for (const propSymbol of checker.getPropertiesOfType(constituent)) {
+            const key = propSymbol.getName();
+            if (Object.hasOwn(shape, key)) continue;
+            return {
+              ...mismatch(
+                self,
+                checker.getTypeOfSymbol(propSymbol),
+                "unexpected-property",
+              ),
+              path: [key],
+            };
+          }
+          for (const info of checker.getIndexInfosOfType(constituent)) {
+            return {
+              ...mismatch(self, info.type, "unexpected-property"),
+              path: [`[${checker.typeToString(info.keyType)}]`],
+            };
+          }
+          return null;
+        });
+      },
+      checkFrom: (type, ctx, self) =>
+        checkFromSomeConstituent(type, self, (target) => {
+          const { checker } = ctx;
+          if (isTopType(target)) return null;
+          if (
+            (target.flags & TS_TYPE_FLAGS_PRIMITIVE) !== 0 ||
+            target.getCallSignatures().length > 0 ||
+            target.getConstructSignatures().length > 0
+          ) {
+            return mismatch(self, target, "not-assignable");
+          }
+
+          for (const propSymbol of checker.getPropertiesOfType(target)) {
+            const key = propSymbol.getName();
+            const propSchema = shape[key];
+            const isTargetOptional =
+              (propSymbol.flags & TS_SYMBOL_FLAGS_OPTIONAL) !== 0;
+
+            if (!propSchema) {
+              if (isTargetOptional) continue;
+              return {
+                ...mismatch(self, target, "missing-property"),
+                path: [key],
+              };
+            }
+
+            const propType = checker.getTypeOfSymbol(propSymbol);
+            if (propSchema._isOptional && !isTargetOptional) {
+              return {
+                ...mismatch(propSchema, propType, "optional-property"),
+                path: [key],
+              };
+            }
+            if (propSchema._isReadonly && !isReadonlyProperty(propSymbol)) {
+              return {
+                ...mismatch(propSchema, propType, "readonly-property"),
+                path: [key],
+              };
+            }
+
+            const result = atPath(key, propSchema._checkFrom(propType, ctx));
+            if (result) return result;
+          }
+
+          for (const { type: valueType } of checker.getIndexInfosOfType(
+            target,
+          )) {
+            for (const [key, propSchema] of Object.entries(shape)) {
+              const result = atPath(key, propSchema._checkFrom(valueType, ctx));
+              if (result) return result;
+            }
+          }
+          return null;
+        }),
+      print: () => {
+        const entries = Object.entries(shape);
+        if (entries.length === 0) return "{}";
+        const props = entries.map(
+          ([key, propSchema]) =>
+            `${propSchema._isReadonly ? "readonly " : ""}${printKey(key)}${propSchema._isOptional ? "?" : ""}: ${propSchema}`,
+        );
+        return `{ ${props.join("; ")} }`;
+      },
+      // TypeScript has neither exact object types nor readonly checks.
+      compile: (compiler, self) =>
+        options.strict ||
+        Object.values(shape).some((propSchema) => propSchema._isReadonly)
+          ? undefined
+          : compileObject(compiler, self, shape),
+    }),
+
+  /**
+   * Represents an array type whose element type satisfies the given schema.
+   * Checks for a numeric index signature, so it also covers tuples and other
+   * numerically-indexed types.
+   *
+   * @example
+   * ```typescript
+   * const NumberArray = t.array(t.number());
+   * ```
+   */
+  array: (element: TypeSchema): TypeSchema =>
+    schema({
+      kind: "array",
+      check: (type, ctx, self) => {
+        const indexType = type.getNumberIndexType();
+        if (!indexType) return mismatch(self, type, "not-array");
+        return atPath("[number]", element._check(indexType, ctx));
+      },
+      checkFrom: (type, ctx, self) =>
+        checkFromSomeConstituent(type, self, (target) => {
+          if (isTopType(target)) return null;
+          const { checker } = ctx;
+          if (!checker.isArrayType(target)) {
+            return checkFromSupertype(ctx, self, target, "not-array", {
+              widest: "ReadonlyArray",
+              element,
+              views: { Iterable: "(yield)", ArrayLike: "[number]" },
+            });
+          }
+          const [elementType] = checker.getTypeArguments(
+            target as ts.TypeReference,
+          );
+          return atPath("[number]", element._checkFrom(elementType!, ctx));
+        }),
+      print: () => `${printOperand(element, Precedence.Primary)}[]`,
+      // The mutable array type it prints as, which the reverse check also
+      // requires of its targets. Readonly arrays are not assignable to it.
+      compile: (compiler) => {
+        const elementType = compiler.compile(element);
+        return (
+          elementType &&
+          getTypeFactories(compiler.ctx.checker).createArrayType(
+            elementType,
+            false,
+          )
+        );
+      },
+    }),
+
+  /**
+   * Represents a tuple type with the given element schemas. Elements marked
+   * `.optional()` may be absent; they must come after required elements.
+   * Element labels are ignored, as they do not affect assignability.
+   *
+   * Unlike {@link t.array}, this checks the number of elements: a tuple with
+   * more elements is rejected unless `rest` is given, and plain arrays are
+   * rejected. `readonly` tuples are only accepted when `readonly` is set.
+   *
+   * @param options.rest Schema for the elements after the fixed ones, as in
+   * `[string, ...number[]]`.
+   * @param options.readonly Whether to also accept `readonly` tuples.
+   *
+   * @example
+   * ```typescript
+   * const Point = t.tuple([t.number(), t.number()]); // [number, number]
+   * const Command = t.tuple([t.string()], { rest: t.number() }); // [string, ...number[]]
+   * ```
+   */
+  tuple: (
+    elements: readonly TypeSchema[],
+    options: { rest?: TypeSchema; readonly?: boolean } = {},
+  ): TypeSchema => {
+    const { rest, readonly: isReadonly = false } = options;
+    const minLength =
+      elements.findLastIndex((element) => !element._isOptional) + 1;
+    // The values of every position, as seen through `Iterable` or `ArrayLike`.
+    const elementUnion = t.union(...elements, ...(rest ? [rest] : []));
+
+    return schema({
+      kind: "tuple",
+      check: (type, ctx, self) => {
+        const { checker } = ctx;
+        if (!checker.isTupleType(type)) {
+          return mismatch(self, type, "not-tuple");
+        }
+        if (isReadonlyTuple(type) && !isReadonly) {
+          return mismatch(self, type, "readonly-tuple");
+        }
+
+        const source = getTupleElements(checker, type as ts.TypeReference);
+        const hasSourceRest = source.some((element) => element.isRest);
+        if (
+          getTupleMinLength(source) < minLength ||
+          (!rest && (hasSourceRest || source.length > elements.length))
+        ) {
+          return mismatch(self, type, "tuple-length");
+        }
+
+        for (const [i, element] of source.entries()) {
+          // A rest element may occupy every remaining position of the schema.
+          const targets: [PathSegment, TypeSchema][] = element.isRest
+            ? elements.slice(i).map((target, j) => [i + j, target])
+            : [[i, elements[i] ?? rest!]];
+          if (element.isRest && rest) targets.push(["[number]", rest]);
+
+          for (const [segment, target] of targets) {
+            const result = atPath(segment, target._check(element.type, ctx));
+            if (result) return result;
+          }
+        }
+        return null;
+      },
+      checkFrom: (type, ctx, self) =>
+        checkFromSomeConstituent(type, self, (target) => {
+          const { checker } = ctx;
+          if (isTopType(target)) return null;
+
+          if (checker.isArrayType(target)) {
+            if (isReadonly && !isReadonlyArray(target)) {
+              return mismatch(self, target, "readonly-tuple");
+            }
+            const [elementType] = checker.getTypeArguments(
+              target as ts.TypeReference,
+            );
+            for (const [segment, element] of [
+              ...elements.entries(),
+              ...(rest ? [["[number]", rest] as const] : []),
+            ]) {
+              const result = atPath(
+                segment,
+                element._checkFrom(elementType!, ctx),
+              );
+              if (result) return result;
+            }
+            return null;
+          }
+
+          if (!checker.isTupleType(target)) {
+            return checkFromSupertype(ctx, self, target, "not-tuple", {
+              widest: "ReadonlyArray",
+              element: elementUnion,
+              views: { Iterable: "(yield)", ArrayLike: "[number]" },
+            });
+          }
+          if (isReadonly && !isReadonlyTuple(target)) {
+            return mismatch(self, target, "readonly-tuple");
+          }
+
+          const targetElements = getTupleElements(
+            checker,
+            target as ts.TypeReference,
+          );
+          const targetRest = targetElements.find((element) => element.isRest);
+          if (
+            minLength < getTupleMinLength(targetElements) ||
+            (!targetRest && (rest || elements.length > targetElements.length))
+          ) {
+            return mismatch(self, target, "tuple-length");
+          }
+
+          const positions = Math.max(elements.length, targetElements.length);
+          for (let i = 0; i < positions; i++) {
+            const element = elements[i] ?? rest;
+            const targetElement =
+              targetElements[i] && !targetElements[i].isRest
+                ? targetElements[i]
+                : targetRest;
+            if (!element || !targetElement) continue;
+            const result = atPath(
+              i,
+              element._checkFrom(targetElement.type, ctx),
+            );
+            if (result) return result;
+          }
+          if (rest && targetRest) {
+            return atPath("[number]", rest._checkFrom(targetRest.type, ctx));
+          }
+          return null;
+        }),
+      print: () => {
+        const printed = elements.map((element) =>
+          element._isOptional
+            ? `${printOperand(element, Precedence.Primary)}?`
+            : `${element}`,
+        );
+        if (rest) {
+          printed.push(`...${printOperand(rest, Precedence.Primary)}[]`);
+        }
+        return `${isReadonly ? "readonly " : ""}[${printed.join(", ")}]`;
+      },
+      precedence: isReadonly ? Precedence.Operator : Precedence.Primary,
+    });
+  },
+
+  /**
+   * Represents a record type such as `Record<string, Handler>` or
+   * `{ [key: string]: number }`. The type must have an index signature whose
+   * key type satisfies `key` (object literal types have an implicit one), and
+   * every index signature and property whose key matches `key` must have a
+   * value satisfying `value`.
+   *
+   * `key` may be `t.string()`, `t.number()`, a {@link t.templateLiteral}, or
+   * a union of those. For a fixed set of keys, use {@link t.object}.
+   *
+   * @example
+   * ```typescript
+   * const Handlers = t.record(t.string(), t.function());
+   * const DataAttributes = t.record(t.templateLiteral(["data-", t.string()]), t.string());
+   * ```
+   */
+  record: (key: TypeSchema, value: TypeSchema): TypeSchema =>
+    schema({
+      kind: "record",
+      check: (type, ctx, self) =>
+        checkEachConstituent(type, (constituent) => {
+          const { checker } = ctx;
+          if ((constituent.flags & TS_TYPE_FLAGS_PRIMITIVE) !== 0) {
+            return mismatch(self, constituent, "not-assignable");
+          }
+
+          const indexInfos = checker
+            .getIndexInfosOfType(constituent)
+            .filter((info) => !key._check(info.keyType, ctx));
+          if (indexInfos.length === 0 && !hasImplicitIndex(constituent)) {
+            return mismatch(self, constituent, "missing-index-signature");
+          }
+
+          for (const propSymbol of checker.getPropertiesOfType(constituent)) {
+            const name = propSymbol.getName();
+            if (isSymbolKeyed(propSymbol) || !key._def.matchText?.(name)) {
+              continue;
+            }
+            const propType = checker.getTypeOfSymbol(propSymbol);
+            const result = atPath(
+              name,
+              (propSymbol.flags & TS_SYMBOL_FLAGS_OPTIONAL) !== 0
+                ? checkEachConstituent(propType, (propConstituent) =>
+                    (propConstituent.flags & TS_TYPE_FLAGS_UNDEFINED) !== 0
+                      ? null
+                      : value._check(propConstituent, ctx),
+                  )
+                : value._check(propType, ctx),
+            );
+            if (result) return result;
+          }
+
+          for (const info of indexInfos) {
+            const result = atPath(
+              `[${checker.typeToString(info.keyType)}]`,
+              value._check(info.type, ctx),
+            );
+            if (result) return result;
+          }
+          return null;
+        }),
+      checkFrom: (type, ctx, self) =>
+        checkFromSomeConstituent(type, self, (target) => {
+          const { checker } = ctx;
+          if (isTopType(target)) return null;
+          if (
+            (target.flags & TS_TYPE_FLAGS_PRIMITIVE) !== 0 ||
+            target.getCallSignatures().length > 0 ||
+            target.getConstructSignatures().length > 0
+          ) {
+            return mismatch(self, target, "not-assignable");
+          }
+
+          // A record does not guarantee that any given key is present.
+          for (const propSymbol of checker.getPropertiesOfType(target)) {
+            const name = propSymbol.getName();
+            if ((propSymbol.flags & TS_SYMBOL_FLAGS_OPTIONAL) === 0) {
+              return {
+                ...mismatch(self, target, "missing-property"),
+                path: [name],
+              };
+            }
+            if (isSymbolKeyed(propSymbol) || !key._def.matchText?.(name)) {
+              continue;
+            }
+            const propType = checker.getTypeOfSymbol(propSymbol);
+            const result = atPath(name, value._checkFrom(propType, ctx));
+            if (result) return result;
+          }
+
+          for (const info of checker.getIndexInfosOfType(target)) {
+            const result = atPath(
+              `[${checker.typeToString(info.keyType)}]`,
+              value._checkFrom(info.type, ctx),
+            );
+            if (result) return result;
+          }
+          return null;
+        }),
+      print: () => `Record<${key}, ${value}>`,
+      compile: (compiler) => {
+        const { checker } = compiler.ctx;
+        const keyType = compiler.compile(key);
+        const valueType = compiler.compile(value);
+        if (!keyType || !valueType) return undefined;
+        const keyTypes = keyType.isUnion() ? keyType.types : [keyType];
+        // Only plain `string` and `number` keys map to index signatures.
+        if (
+          !keyTypes.every(
+            (type) =>
+              type.flags === TS_TYPE_FLAGS_STRING ||
+              type.flags === TS_TYPE_FLAGS_NUMBER,
+          )
+        ) {
+          return undefined;
+        }
+        const factories = getTypeFactories(checker);
+        return createObjectType(
+          checker,
+          new Map(),
+          [],
+          [],
+          keyTypes.map((type) =>
+            factories.createIndexInfo(type, valueType, false),
+          ),
+        );
+      },
+    }),
+
+  /**
+   * Represents a lib `Map` with the given key and value types. Also matches
+   * classes and interfaces that extend `Map`. With `readonly`, also matches
+   * `ReadonlyMap`.
+   *
+   * @example
+   * ```typescript
+   * const Registry = t.map(t.string(), t.fromModule("./plugin", "Plugin"));
+   * ```
+   */
+  map: (
+    key: TypeSchema,
+    value: TypeSchema,
+    options: { readonly?: boolean } = {},
+  ): TypeSchema =>
+    libCollectionSchema(
+      "map",
+      [
+        ["(key)", key],
+        ["(value)", value],
+      ],
+      options.readonly ?? false,
+    ),
+
+  /**
+   * Represents a lib `Set` with the given value type. Also matches classes
+   * and interfaces that extend `Set`. With `readonly`, also matches
+   * `ReadonlySet`.
+   *
+   * @example
+   * ```typescript
+   * const Tags = t.set(t.string(), { readonly: true });
+   * ```
+   */
+  set: (value: TypeSchema, options: { readonly?: boolean } = {}): TypeSchema =>
+    libCollectionSchema("set", [["(value)", value]], options.readonly ?? false),
+
+  /**
+   * Represents a union of the given schemas. For union source types, every
+   * constituent must individually satisfy at least one member schema.
+   *
+   * @example
+   * ```typescript
+   * const StringOrNumber = t.union(t.string(), t.number());
+   * ```
+   */
+  union: (...members: TypeSchema[]): TypeSchema =>
+    schema({
+      kind: "union",
+      check: (type, ctx, self) => {
+        const checkConstituent = (constituent: Type): Mismatch | null => {
+          const causes: Mismatch[] = [];
+          for (const member of members) {
+            const result = member._check(constituent, ctx);
+            if (!result) return null;
+            causes.push(result);
+          }
+          return {
+            ...mismatch(self, constituent, "no-matching-member"),
+            causes,
+          };
+        };
+
+        if (type.isUnion()) {
+          for (const constituent of type.types) {
+            const result = checkConstituent(constituent);
+            if (result) return result;
+          }
+          return null;
+        }
+        return checkConstituent(type);
+      },
+      checkFrom: (type, ctx) => {
+        for (const member of members) {
+          const result = member._checkFrom(type, ctx);
+          if (result) return result;
+        }
+        return null;
+      },
+      print: () =>
+        members.length === 0
+          ? "never"
+          : members
+              .map((member) => printOperand(member, Precedence.Union))
+              .join(" | "),
+      precedence: Precedence.Union,
+      acceptsAnySource: () => members.some(acceptsAnySource),
+      compile: (compiler) => {
+        const types = compileAll(compiler, members);
+        return (
+          types && getTypeFactories(compiler.ctx.checker).getUnionType(types)
+        );
+      },
+      matchText: (text) =>
+        members.some((member) => member._def.matchText?.(text) ?? false),
+    }),
+
+  /**
+   * Represents a union of object types told apart by a discriminant property
+   * whose type is a string literal, such as `kind` in
+   * `{ kind: "circle"; radius: number } | { kind: "square"; side: number }`.
+   * Each variant is keyed by the value of its discriminant, which it does not
+   * need to list itself.
+   *
+   * Unlike {@link t.union}, each constituent of the type is only checked
+   * against the variant named by its discriminant, which is faster for large
+   * unions, and explains mismatches within that variant. A discriminant that
+   * names no variant is an `"unhandled-variant"` mismatch; use
+   * {@link explainVariants} for the result of each constituent.
+   *
+   * @example
+   * ```typescript
+   * const Shape = t.discriminatedUnion("kind", {
+   *   circle: t.object({ radius: t.number() }),
+   *   square: t.object({ side: t.number() }),
+   * });
+   * ```
+   */
+  discriminatedUnion: (
+    key: string,
+    variants: Record<string, TypeSchema>,
+  ): TypeSchema => {
+    const byValue = new Map<string, TypeSchema>();
+    for (const [value, variant] of Object.entries(variants)) {
+      const tag = t.object({ [key]: t.literal(value) });
+      byValue.set(
+        value,
+        variant._def.shape ? tag.merge(variant) : t.intersection(tag, variant),
+      );
+    }
+    const union = t.union(...byValue.values());
+
+    return schema({
+      ...union._def,
+      kind: "discriminatedUnion",
+      discriminant: key,
+      check: (type, ctx, self) =>
+        checkEachConstituent(type, (constituent) => {
+          const propSymbol = constituent.getProperty(key);
+          if (!propSymbol) {
+            return {
+              ...mismatch(self, constituent, "missing-property"),
+              path: [key],
+            };
+          }
+          const value = ctx.checker.getTypeOfSymbol(propSymbol);
+          // Other discriminants may still fit a variant, as for t.union().
+          if (!value.isStringLiteral()) return union._check(constituent, ctx);
+          const variant = byValue.get(value.value);
+          if (!variant) {
+            return {
+              ...mismatch(self, value, "unhandled-variant"),
+              path: [key],
+            };
+          }
+          return variant._check(constituent, ctx);
+        }),
+    });
+  },
+
+  /**
+   * Represents an intersection of the given schemas. The type must satisfy
+   * every member schema simultaneously.
+   *
+   * @example
+   * ```typescript
+   * const NamedAndAged = t.intersection(
+   *   t.object({ name: t.string() }),
+   *   t.object({ age: t.number() }),
+   * );
+   * ```
+   */
+  intersection: (...members: TypeSchema[]): TypeSchema =>
+    schema({
+      kind: "intersection",
+      check: (type, ctx) => {
+        for (const member of members) {
+          const result = member._check(type, ctx);
+          if (result) return result;
+        }
+        return null;
+      },
+      checkFrom: (type, ctx, self) => {
+        const causes: Mismatch[] = [];
+        for (const member of members) {
+          const result = member._checkFrom(type, ctx);
+          if (!result) return null;
+          causes.push(result);
+        }
+        // An intersection of objects may only fit the type once combined.
+        const shapes = members.map((member) => member._def.shape);
+        if (members.length > 1 && shapes.every((shape) => shape)) {
+          return t
+            .object(mergeShapes(shapes as Record<string, TypeSchema>[]))
+            ._checkFrom(type, ctx);
+        }
+        return causes.length === 1
+          ? causes[0]!
+          : { ...mismatch(self, type, "not-assignable"), causes };
+      },
+      print: () =>
+        members.length === 0
+          ? "unknown"
+          : members
+              .map((member) => printOperand(member, Precedence.Intersection))
+              .join(" & "),
+      precedence: Precedence.Intersection,
+      acceptsAnySource: () => members.every(acceptsAnySource),
+      // The checker does not expose intersections, but intersections of
+      // objects or of signatures have a single-object equivalent.
+      compile: (compiler, self) => {
+        if (members.length === 0) return compiler.ctx.checker.getUnknownType();
+        const shapes = members.map((member) => member._def.shape);
+        if (shapes.every((shape) => shape)) {
+          return compiler.compile(
+            t.object(mergeShapes(shapes as Record<string, TypeSchema>[])),
+          );
+        }
+        if (!members.every((member) => member._def.kind === "function")) {
+          return undefined;
+        }
+        const types = compileAll(compiler, members);
+        return (
+          types &&
+          createObjectType(
+            compiler.ctx.checker,
+            new Map(),
+            types.flatMap((type) => type.getCallSignatures()),
+            types.flatMap((type) => type.getConstructSignatures()),
+          )
+        );
+      },
+    }),
+
+  /**
+   * Represents a function type with the given parameters and return type.
+   * Matches types with at least one call signature (any overload) that is
+   * assignable to the described signature, following TypeScript's rules:
+   *
+   * - The signature may declare fewer parameters than `params`, but may not
+   *   require more arguments than `params` provides (unless `rest` is set).
+   * - Parameters are compared contravariantly (each schema must be assignable
+   *   to the parameter type), or bivariantly when `strictFunctionTypes` is
+   *   disabled. Use {@link t.method} for bivariant method parameters.
+   * - Parameters marked `.optional()` also pass `undefined`.
+   * - A `t.void()` return type accepts any return type; an omitted `returns`
+   *   is equivalent to `t.unknown()`.
+   *
+   * Parameter schemas cannot use {@link t.custom}.
+   *
+   * @example
+   * ```typescript
+   * const Listener = t.function({
+   *   params: [t.fromModule("electron", "Event"), t.string()],
+   *   returns: t.void(),
+   * });
+   * ```
+   */
+  function: (signature: SignatureShape = {}): TypeSchema =>
+    signatureSchema("call", signature, false),
+
+  /**
+   * Like {@link t.function}, but compares parameters bivariantly, as
+   * TypeScript does for method declarations. Useful to describe methods inside
+   * {@link t.object}.
+   *
+   * @example
+   * ```typescript
+   * const Emitter = t.object({
+   *   on: t.method({ params: [t.string(), t.function()] }),
+   * });
+   * ```
+   */
+  method: (signature: SignatureShape = {}): TypeSchema =>
+    signatureSchema("call", signature, true),
+
+  /**
+   * Represents a constructor type, e.g. `new (opts: Options) => Window`.
+   * Matches types with at least one construct signature assignable to the
+   * described signature, with the same rules as {@link t.function}.
+   *
+   * @example
+   * ```typescript
+   * const WindowClass = t.newable({
+   *   params: [t.object({ width: t.number() })],
+   *   returns: t.fromModule("electron", "BaseWindow"),
+   * });
+   * ```
+   */
+  newable: (signature: SignatureShape = {}): TypeSchema =>
+    signatureSchema("construct", signature, false),
+
+  /**
+   * Represents an overloaded function: every given signature schema must be
+   * matched by at least one call signature of the type.
+   *
+   * @example
+   * ```typescript
+   * const Parse = t.overloads(
+   *   t.function({ params: [t.string()], returns: t.number() }),
+   *   t.function({ params: [t.string(), t.number()], returns: t.number() }),
+   * );
+   * ```
+   */
+  overloads: (...signatures: TypeSchema[]): TypeSchema =>
+    t.intersection(...signatures),
+
+  /**
+   * Represents a lib `Promise` whose value satisfies the given schema. Also
+   * matches classes and interfaces that extend `Promise`, but not other
+   * thenables (see {@link t.thenable}).
+   *
+   * @example
+   * ```typescript
+   * const VoidPromise = t.promise(t.void());
+   * ```
+   */
+  promise: (inner: TypeSchema): TypeSchema =>
+    protocolSchema("promise", inner, {
+      names: ["Promise", "PromiseLike"],
+      reason: "not-promise",
+      segment: "(awaited)",
+      getTypes: (ctx, type) => {
+        const found = findBaseType(ctx, type, (candidate) =>
+          isLibType(ctx, candidate, ["Promise"]),
+        );
+        return found?.typeArguments.slice(0, 1);
+      },
+    }),
+
+  /**
+   * Represents any type with a callable `then` method, like `PromiseLike`,
+   * whose `onfulfilled` callback receives a value satisfying the given
+   * schema. The value is not unwrapped further.
+   *
+   * @example
+   * ```typescript
+   * const AnyThenable = t.thenable(t.unknown());
+   * ```
+   */
+  thenable: (inner: TypeSchema): TypeSchema =>
+    protocolSchema("thenable", inner, {
+      names: ["PromiseLike"],
+      reason: "not-thenable",
+      segment: "(awaited)",
+      getTypes: ({ checker }, type) => getPromisedTypes(checker, type),
+    }),
+
+  /**
+   * Represents the types that `await` turns into a value satisfying the
+   * given schema: plain values, as well as thenables, unwrapped recursively
+   * by the checker's own `getAwaitedType()`. Prints as
+   * `T | PromiseLike<T>`.
+   *
+   * @example
+   * ```typescript
+   * // A callback that may return a string or a promise of one.
+   * const Callback = t.function({ returns: t.awaited(t.string()) });
+   * ```
+   */
+  awaited: (inner: TypeSchema): TypeSchema => {
+    const awaitable = t.union(inner, t.thenable(inner));
+    return schema({
+      kind: "awaited",
+      check: (type, ctx, self) => {
+        const awaitedType = ctx.checker.getAwaitedType(type);
+        if (!awaitedType) return mismatch(self, type, "not-thenable");
+        return awaitedType === type
+          ? inner._check(type, ctx)
+          : atPath("(awaited)", inner._check(awaitedType, ctx));
+      },
+      checkFrom: (type, ctx) => awaitable._checkFrom(type, ctx),
+      print: () => `${awaitable}`,
+      precedence: Precedence.Union,
+    });
+  },
+
+  /**
+   * Represents an iterable whose values satisfy the given schema, read from
+   * its `[Symbol.iterator]` method. Matches arrays, tuples, strings, `Map`,
+   * `Set`, generators and any other type implementing the protocol.
+   *
+   * @example
+   * ```typescript
+   * const Strings = t.iterable(t.string());
+   * ```
+   */
+  iterable: (inner: TypeSchema): TypeSchema =>
+    protocolSchema("iterable", inner, {
+      names: ["Iterable"],
+      reason: "not-iterable",
+      segment: "(yield)",
+      getTypes: ({ checker }, type) => getIteratedTypes(checker, type, false),
+    }),
+
+  /**
+   * Like {@link t.iterable}, for the `[Symbol.asyncIterator]` method used by
+   * `for await`. The values are those that the iterator results resolve to.
+   *
+   * @example
+   * ```typescript
+   * const Chunks = t.asyncIterable(t.fromModule("node:buffer", "Buffer"));
+   * ```
+   */
+  asyncIterable: (inner: TypeSchema): TypeSchema =>
+    protocolSchema("asyncIterable", inner, {
+      names: ["AsyncIterable"],
+      reason: "not-iterable",
+      segment: "(yield)",
+      getTypes: ({ checker }, type) => getIteratedTypes(checker, type, true),
+    }),
+
+  /**
+   * Represents a lib `Generator` (or, with `async`, `AsyncGenerator`), as
+   * returned by generator functions. Also matches classes and interfaces that
+   * extend it.
+   *
+   * @param options.async Whether to represent an `AsyncGenerator`.
+   *
+   * @example
+   * ```typescript
+   * const Saga = t.generator({ yields: t.fromModule("./effects", "Effect") });
+   * ```
+   */
+  generator: (
+    shape: GeneratorShape = {},
+    options: { async?: boolean } = {},
+  ): TypeSchema => {
+    const name = options.async ? "AsyncGenerator" : "Generator";
+    const {
+      yields = t.unknown(),
+      returns = t.unknown(),
+      next = t.any(),
+    } = shape;
+
+    const checkTypeArguments = (
+      types: readonly Type[],
+      ctx: SchemaContext,
+      direction: "_check" | "_checkFrom",
+    ): Mismatch | null => {
+      const reverse = direction === "_check" ? "_checkFrom" : "_check";
+      const [yieldType, returnType, nextType] = types;
+      return (
+        atPath("(yield)", yields[direction](yieldType!, ctx)) ??
+        atPath("(return)", returns[direction](returnType!, ctx)) ??
+        atPath("(next)", next[reverse](nextType!, ctx))
+      );
+    };
+
+    return schema({
+      kind: "generator",
+      check: (type, ctx, self) =>
+        checkEachConstituent(type, (constituent) => {
+          const found = findBaseType(ctx, constituent, (candidate) =>
+            isLibType(ctx, candidate, [name]),
+          );
+          if (!found) return mismatch(self, constituent, "not-generator");
+          return checkTypeArguments(found.typeArguments, ctx, "_check");
+        }),
+      checkFrom: (type, ctx, self) =>
+        checkFromSomeConstituent(type, self, (target) => {
+          if (isTopType(target)) return null;
+          if (!isLibType(ctx, target, [name])) {
+            return checkFromSupertype(ctx, self, target, "not-generator", {
+              widest: name,
+              element: yields,
+              views: options.async
+                ? { AsyncIterable: "(yield)" }
+                : { Iterable: "(yield)" },
+            });
+          }
+          return checkTypeArguments(
+            ctx.checker.getTypeArguments(target as ts.TypeReference),
+            ctx,
+            "_checkFrom",
+          );
+        }),
+      print: () => `${name}<${yields}, ${returns}, ${next}>`,
+    });
+  },
+
+  /**
+   * Represents a type exported from a module. Resolves the module as the
+   * program resolves the same import, with a fallback to ambient module
+   * declarations. Resolved types are cached per `TypeChecker` instance.
+   *
+   * Requires `program` in the {@link SchemaContext}. Relative specifiers
+   * (`"./x"`, `"../x"`) also require `sourceFile`.
+   *
+   * @param moduleName The module specifier, as in an `import` statement.
+   * @param exportName The exported type, class or interface name. A dotted
+   * path such as `"server.Project"` refers to a member of an exported
+   * namespace (or enum), and `"default"` to the default export or to the
+   * `export =` of the module. Re-exports are followed.
+   *
+   * @example
+   * ```typescript
+   * const BaseWindow = t.fromModule("electron", "BaseWindow");
+   * const Buffer = t.fromModule("node:buffer", "Buffer");
+   * const Project = t.fromModule("typescript", "server.Project");
+   * ```
+   *
+   * For generic types, use {@link TypeSchema.of} to check type arguments, or
+   * {@link TypeSchema.ofAny} to accept any instantiation.
+   *
+   * @throws When `program` is missing from the context.
+   * @throws When `moduleName` is relative and `sourceFile` is missing.
+   * @throws When no export named `exportName` can be resolved from
+   * `moduleName`, or when it is not a type.
+   */
+  fromModule: (moduleName: string, exportName: string): TypeSchema =>
+    exportSchema(moduleName, exportName),
+
+  /**
+   * Represents a global type, such as a type of the lib files or of an
+   * ambient `declare global` block, the way {@link t.fromModule} represents
+   * a module export. Only requires `checker` in the {@link SchemaContext}.
+   *
+   * @param name The global type name, or a dotted path into a global
+   * namespace.
+   *
+   * @example
+   * ```typescript
+   * const Element = t.global("HTMLElement");
+   * const Timeout = t.global("NodeJS.Timeout");
+   * ```
+   *
+   * @throws When checking, if no global type named `name` can be resolved.
+   */
+  global: (name: string): TypeSchema => exportSchema(undefined, name),
+
+  /**
+   * Represents the type of a value exported from a module, as in
+   * `typeof import("module").name`. Module resolution works as in
+   * {@link t.fromModule}, including dotted paths and `"default"`.
+   *
+   * @example
+   * ```typescript
+   * const Config = t.typeofExport("./config", "defaultConfig");
+   * ```
+   *
+   * @throws In the same cases as {@link t.fromModule}, or when the export is
+   * not a value.
+   */
+  typeofExport: (moduleName: string, exportName: string): TypeSchema =>
+    schema({
+      kind: "fromModule",
+      check: (type, ctx, self) =>
+        ctx.checker.isTypeAssignableTo(
+          type,
+          getModuleValueType(ctx, moduleName, exportName),
+        )
+          ? null
+          : mismatch(self, type, "not-assignable"),
+      checkFrom: (type, ctx, self) =>
+        ctx.checker.isTypeAssignableTo(
+          getModuleValueType(ctx, moduleName, exportName),
+          type,
+        )
+          ? null
+          : mismatch(self, type, "not-assignable"),
+      print: () => `typeof ${printExport(moduleName, exportName)}`,
+      compile: ({ ctx }) => getModuleValueType(ctx, moduleName, exportName),
+    }),
+
+  /**
+   * Represents an enum exported from a module, or a subset of its members.
+   * Module resolution works as in {@link t.fromModule}.
+   *
+   * @param moduleName The module specifier, as in an `import` statement.
+   * @param enumName The exported enum name.
+   * @param members If given, only these members of the enum are accepted.
+   *
+   * @example
+   * ```typescript
+   * const Method = t.enumFromModule("./http", "Method");
+   * const SafeMethod = t.enumFromModule("./http", "Method", ["Get", "Head"]);
+   * ```
+   *
+   * @throws In the same cases as {@link t.fromModule}.
+   * @throws When the export is not an enum, or lacks one of `members`.
+   */
+  enumFromModule: (
+    moduleName: string,
+    enumName: string,
+    members?: readonly string[],
+  ): TypeSchema =>
+    schema({
+      kind: "fromModule",
+      check: (type, ctx, self) => {
+        const targets = getEnumTypes(ctx, moduleName, enumName, members);
+        const constituents = type.isUnion() ? type.types : [type];
+        for (const constituent of constituents) {
+          if (
+            !targets.some((target) =>
+              ctx.checker.isTypeAssignableTo(constituent, target),
+            )
+          ) {
+            return mismatch(self, constituent, "not-assignable");
+          }
+        }
+        return null;
+      },
+      checkFrom: (type, ctx, self) => {
+        const sources = getEnumTypes(ctx, moduleName, enumName, members);
+        return sources.every((source) =>
+          ctx.checker.isTypeAssignableTo(source, type),
+        )
+          ? null
+          : mismatch(self, type, "not-assignable");
+      },
+      print: () => {
+        const enumRef = printExport(moduleName, enumName);
+        if (!members) return enumRef;
+        if (members.length === 0) return "never";
+        return members.map((member) => `${enumRef}.${member}`).join(" | ");
+      },
+      precedence:
+        members && members.length > 1 ? Precedence.Union : Precedence.Primary,
+      compile: ({ ctx }) =>
+        getTypeFactories(ctx.checker).getUnionType(
+          getEnumTypes(ctx, moduleName, enumName, members),
+        ),
+    }),
+
+  /**
+   * Represents instances of a class or interface exported from a module, or
+   * of a class or interface that extends it. Unlike {@link t.fromModule},
+   * this checks the declared identity of the type and its `extends` chain
+   * instead of its structure, so that a structurally compatible object is
+   * not mistaken for an instance. `implements` clauses are not followed.
+   *
+   * @param classSchema A {@link t.fromModule} or {@link t.global} schema for
+   * the class or interface.
+   *
+   * @example
+   * ```typescript
+   * const Window = t.instanceOf(t.fromModule("electron", "BaseWindow"));
+   * const Element = t.instanceOf(t.global("HTMLElement"));
+   * ```
+   *
+   * @throws When `classSchema` is not a {@link t.fromModule} or
+   * {@link t.global} schema.
+   * @throws When checking, in the same cases as {@link t.fromModule}, or
+   * when the export is not a class or interface.
+   */
+  instanceOf: (classSchema: TypeSchema): TypeSchema => {
+    const { moduleExport } = classSchema._def;
+    if (!moduleExport) {
+      throw new Error(
+        "t.instanceOf() expects a t.fromModule() or t.global() schema.",
+      );
+    }
+    const { moduleName, exportName } = moduleExport;
+    return schema({
+      kind: "instanceOf",
+      check: (type, ctx, self) => {
+        const classType = getClassType(ctx, moduleName, exportName);
+        return checkEachConstituent(type, (constituent) =>
+          isInstanceOf(ctx.checker, constituent, classType)
+            ? null
+            : mismatch(self, constituent, "not-instance"),
+        );
+      },
+      checkFrom: (type, ctx, self) =>
+        ctx.checker.isTypeAssignableTo(
+          getClassType(ctx, moduleName, exportName),
+          type,
+        )
+          ? null
+          : mismatch(self, type, "not-assignable"),
+      print: () => `${classSchema}`,
+    });
+  },
+
+  /**
+   * Represents a branded type: `inner` intersected with a brand, as in the
+   * common `string & { __brand: "UserId" }` pattern. The brand is an object
+   * member of the intersection with a `__brand`, `__type` or `_brand`
+   * property whose type is the string literal `brand`, a property named
+   * `brand` (as in `{ UserId: unique symbol }`), or a property keyed by a
+   * `unique symbol` constant named `brand`. Other properties are not brands,
+   * so `string & { role: "admin" }` is not branded `"admin"`.
+   *
+   * @example
+   * ```typescript
+   * const UserId = t.branded(t.string(), "UserId");
+   * ```
+   */
+  branded: (inner: TypeSchema, brand: string): TypeSchema =>
+    schema({
+      kind: "branded",
+      check: (type, ctx, self) =>
+        checkEachConstituent(type, (constituent) =>
+          constituent.isIntersection() &&
+          constituent.types.some((member) =>
+            isBrandMember(ctx.checker, member, brand),
+          )
+            ? inner._check(constituent, ctx)
+            : mismatch(self, constituent, "missing-brand"),
+        ),
+      // The schema has the brand, so only the other members of the target
+      // need checking.
+      checkFrom: (type, ctx, self) =>
+        checkFromSomeConstituent(type, self, (target) => {
+          const members = target.isIntersection()
+            ? target.types.filter(
+                (member) => !isBrandMember(ctx.checker, member, brand),
+              )
+            : [target];
+          for (const member of members) {
+            const result = inner._checkFrom(member, ctx);
+            if (result) return result;
+          }
+          return null;
+        }),
+      print: () =>
+        `${printOperand(inner, Precedence.Intersection)} & { __brand: ${JSON.stringify(brand)} }`,
+      precedence: Precedence.Intersection,
+    }),
+
+  /**
+   * Builds a schema from TypeScript type syntax, e.g.
+   * `"{ x: number; y: string | null }"`. The result composes with the rest of
+   * the DSL, and prints as the equivalent builders would.
+   *
+   * Supports keywords, literal and template literal types, object types
+   * (with `readonly` and `?` modifiers, methods, call, construct and index
+   * signatures), arrays, tuples, unions, intersections, function and
+   * constructor types, `Array`, `ReadonlyArray`, `Record`, `Map`,
+   * `ReadonlyMap`, `Set`, `ReadonlySet`, `Promise`, `PromiseLike`, `Iterable`,
+   * `AsyncIterable`, `Function`, `Date`, `RegExp` and `Error`. Type names
+   * listed in `imports`, and `import("module").Name` types, are resolved as
+   * in {@link t.fromModule}; `ns.Name` is resolved from the module `ns` is
+   * listed with. Other type names, qualified or not, are resolved when
+   * checking as in {@link t.global}. Type arguments are applied as in
+   * {@link TypeSchema.of}. `typeof import("module").name` is resolved as in
+   * {@link t.typeofExport}.
+   *
+   * @example
+   * ```typescript
+   * const Point = t.parse("{ x: number; y: number; label?: string }");
+   * const Window = t.parse("BaseWindow | null", { imports: { BaseWindow: "electron" } });
+   * const Buffer = t.parse('import("node:buffer").Buffer');
+   * ```
+   *
+   * @throws When the text is not a single type, or uses unsupported syntax.
+   * The message gives the line and column in `text`. Resolution errors of
+   * modules and global names, thrown when checking, also carry the position.
+   */
+  parse: (text: string, options: ParseOptions = {}): TypeSchema =>
+    parseTypeText(text, options.imports ?? {}),
+
+  /**
+   * Represents a schema that is only built when first needed, which allows
+   * recursive schemas. Cycles between recursive schemas and recursive types
+   * are treated as assignable.
+   *
+   * @param name How recursive occurrences are printed by
+   * {@link printSchema}. When given, the schema is always printed as `name`,
+   * as if it were a type alias. Otherwise, recursive occurrences are printed
+   * as `unknown /* recursive *\/`.
+   *
+   * @example
+   * ```typescript
+   * const Json: TypeSchema = t.union(
+   *   t.string(),
+   *   t.number(),
+   *   t.boolean(),
+   *   t.null(),
+   *   t.array(t.lazy(() => Json)),
+   *   t.record(t.string(), t.lazy(() => Json)),
+   * );
+   * const TreeNode: TypeSchema = t.object({
+   *   children: t.array(t.lazy(() => TreeNode, "TreeNode")),
+   * });
+   * ```
+   */
+  lazy: (getSchema: () => TypeSchema, name?: string): TypeSchema => {
+    let resolved: TypeSchema | undefined;
+    const resolve = (): TypeSchema => (resolved ??= getSchema());
+
+    return schema({
+      kind: "lazy",
+      check: (type, ctx) => resolve()._check(type, ctx),
+      checkFrom: (type, ctx) => resolve()._checkFrom(type, ctx),
+      // The precedence of the schema is unknown until it is resolved.
+      print: () => name ?? printOperand(resolve(), Precedence.Primary),
+      acceptsAnySource: () => acceptsAnySource(resolve()),
+      compile: (compiler) => compiler.compile(resolve()),
+      matchText: (text) => resolve()._def.matchText?.(text) ?? false,
+    });
+  },
+
+  /**
+   * Names the type matched by a schema, so that {@link match} returns it.
+   * Captures may appear anywhere in a schema; in parameter position, they
+   * capture the parameter type.
+   *
+   * @example
+   * ```typescript
+   * const SetTimeout = t.function({
+   *   params: [t.capture("callback", t.function()), t.number().optional()],
+   * });
+   * ```
+   */
+  capture: (name: string, inner: TypeSchema): TypeSchema =>
+    schema({
+      kind: "capture",
+      check: (type, ctx) => {
+        const result = inner._check(type, ctx);
+        if (!result) currentCaptures?.push([name, type]);
+        return result;
+      },
+      checkFrom: (type, ctx) => {
+        const result = inner._checkFrom(type, ctx);
+        if (!result) currentCaptures?.push([name, type]);
+        return result;
+      },
+      print: () => `${inner}`,
+      precedence: inner._precedence,
+      isOptional: inner._isOptional,
+      isReadonly: inner._isReadonly,
+      matchText: inner._def.matchText,
+      acceptsAnySource: () => acceptsAnySource(inner),
+      compile: (compiler) => compiler.compile(inner),
+    }),
+
+  /**
+   * Checks the schema with a single `checker.isTypeAssignableTo()` call
+   * against the compiler type it represents (see {@link compileSchema}),
+   * which is faster for large schemas and follows TypeScript's own rules in
+   * every edge case. Mismatches are still explained in detail, with
+   * `"not-assignable"` at the root when only the checker rejects the type.
+   *
+   * Falls back to the regular checks for schemas that have no exact
+   * compiler type: {@link t.custom}, tuples, template literals, maps and
+   * sets, promises, iterables and generators, generic instantiations, strict
+   * objects and readonly modifiers.
+   * {@link match} also uses the regular checks, to record captures.
+   *
+   * @example
+   * ```typescript
+   * const Options = t.compiled(t.object({ timeout: t.number().optional() }));
+   * ```
+   */
+  compiled: (inner: TypeSchema): TypeSchema =>
+    schema({
+      // Keeps the shape, export and discriminant of the schema, so that it
+      // can still be transformed, instantiated and explained.
+      ...inner._def,
+      check: (type, ctx, self) => {
+        const target = canCompile(ctx) ? compileSchema(ctx, inner) : undefined;
+        if (!target || ctx.checker.isTypeAssignableTo(type, target)) {
+          return target ? null : inner._check(type, ctx);
+        }
+        return (
+          inner._check(type, ctx) ?? mismatch(self, type, "not-assignable")
+        );
+      },
+      checkFrom: (type, ctx, self) => {
+        const source = canCompile(ctx) ? compileSchema(ctx, inner) : undefined;
+        if (!source || ctx.checker.isTypeAssignableTo(source, type)) {
+          return source ? null : inner._checkFrom(type, ctx);
+        }
+        return (
+          inner._checkFrom(type, ctx) ?? mismatch(self, type, "not-assignable")
+        );
+      },
+      print: () => `${inner}`,
+      acceptsAnySource: () => acceptsAnySource(inner),
+      compile: (compiler) => compiler.compile(inner),
+    }),
+
+  /**
+   * Escape hatch for arbitrary predicates that the DSL cannot express directly.
+   *
+   * @param label How the schema is printed by {@link printSchema}, e.g.
+   * `"ArrayLike<unknown>"`. Defaults to `"<custom>"`.
+   * @param options.acceptsFrom The reverse predicate: whether the schema is
+   * assignable to the given type, for parameter position and
+   * {@link isAssignableFrom}. Reverse checks throw without it.
+   * @param options.pure Set to `false` when the predicates may answer
+   * differently for the same type, e.g. because they read external state.
+   * Results that depend on them are then never cached.
+   *
+   * @example
+   * ```typescript
+   * const HasLengthProp = t.custom(
+   *   (type) => type.getProperty("length") != null,
+   *   "{ length: unknown }",
+   * );
+   * ```
+   */
+  custom: (
+    predicate: AcceptsFn,
+    label = "<custom>",
+    options: { acceptsFrom?: AcceptsFn; pure?: boolean } = {},
+  ): TypeSchema =>
+    schema({
+      kind: "custom",
+      check: (type, ctx, self) => {
+        if (options.pure === false) uncacheableChecks++;
+        return predicate(type, ctx) ? null : mismatch(self, type, "custom");
+      },
+      checkFrom: (type, ctx, self) => {
+        if (options.pure === false) uncacheableChecks++;
+        if (!options.acceptsFrom) {
+          throw new Error(
+            "t.custom() schemas without `acceptsFrom` cannot be checked in parameter position or by isAssignableFrom().",
+          );
+        }
+        return options.acceptsFrom(type, ctx)
+          ? null
+          : mismatch(self, type, "custom");
+      },
+      print: () => label,
+    }),
+};
+
+/**
+ * Per-checker cache for `t.fromModule()` and `t.global()` resolved exports,
+ * by module resolution host.
+ */
+const moduleExportCache = new WeakMap<
+  TypeChecker,
+  Map<ts.ModuleResolutionHost | undefined, Map<string, ts.Symbol | null>>
+>();
+
+/** Names the builder of an export in error messages. */
+const exportCaller = (moduleName: string | undefined): string =>
+  moduleName === undefined ? "t.global()" : "t.fromModule()";
+
+/** Describes an export in error messages, e.g. `export "X" of module "m"`. */
+const describeExport = (
+  moduleName: string | undefined,
+  exportName: string,
+): string =>
+  moduleName === undefined
+    ? `global "${exportName}"`
+    : `export "${exportName}" of module "${moduleName}"`;
+
+/** Prints a reference to an export, e.g. `import("m").X`. */
+const printExport = (
+  moduleName: string | undefined,
+  exportName: string,
+): string =>
+  moduleName === undefined
+    ? exportName
+    : `import(${JSON.stringify(moduleName)}).${exportName}`;
+
+/**
+ * Returns the symbol exported as `exportName` from `moduleName`, or the
+ * global symbol named `exportName` when `moduleName` is `undefined`,
+ * resolving it at most once per `TypeChecker`, source file and module
+ * resolution host. Aliases are resolved to the symbol they refer to.
+ *
+ * @param caller The builder to name in error messages.
+ *
+ * @throws When the context or the export cannot be resolved, as documented
+ * on {@link t.fromModule} and {@link t.global}.
+ */
+const getModuleExport = (
+  ctx: SchemaContext,
+  moduleName: string | undefined,
+  exportName: string,
+  caller = exportCaller(moduleName),
+): ts.Symbol => {
+  const { checker, program, sourceFile, moduleResolutionHost } = ctx;
+  const isRelative =
+    moduleName !== undefined &&
+    (moduleName.startsWith("./") || moduleName.startsWith("../"));
+  if (moduleName !== undefined) {
+    if (!program) {
+      throw new Error(`${caller} requires \`program\` in the SchemaContext.`);
+    }
+    if (isRelative && !sourceFile) {
+      throw new Error(
+        `${caller} requires \`sourceFile\` in the SchemaContext for relative module specifiers.`,
+      );
+    }
+  }
+
+  let byHost = moduleExportCache.get(checker);
+  if (!byHost) {
+    byHost = new Map();
+    moduleExportCache.set(checker, byHost);
+  }
+  // Globals do not depend on module resolution.
+  const host = moduleName !== undefined ? moduleResolutionHost : undefined;
+  let cache = byHost.get(host);
+  if (!cache) {
+    cache = new Map();
+    byHost.set(host, cache);
+  }
+
+  // Bare specifiers may also resolve differently from file to file, e.g. to
+  // different versions of a package in a monorepo.
+  const cacheKey = JSON.stringify([
+    moduleName ?? null,
+    exportName,
+    moduleName !== undefined ? (sourceFile?.fileName ?? null) : null,
+  ]);
+
+  if (!cache.has(cacheKey)) {
+    const [first, ...rest] = exportName.split(".");
+    let symbol =
+      moduleName === undefined
+        ? checker.resolveName(
+            first!,
+            undefined,
+            rest.length > 0
+              ? TS_SYMBOL_FLAGS_NAMESPACE
+              : TS_SYMBOL_FLAGS_TYPE | TS_SYMBOL_FLAGS_VALUE,
+            false,
+          )
+        : getExportOfModule(checker, resolveModule(ctx, moduleName), first!);
+    for (const name of rest) {
+      symbol = getExportOfModule(checker, symbol, name);
+    }
+    cache.set(cacheKey, symbol ? resolveAlias(checker, symbol) : null);
+  }
+
+  const exportSymbol = cache.get(cacheKey);
+  if (exportSymbol == null) {
+    throw new Error(
+      moduleName === undefined
+        ? `${caller}: could not resolve global "${exportName}".`
+        : `${caller}: could not resolve export "${exportName}" from module "${moduleName}".`,
+    );
+  }
+  return exportSymbol;
+};
+
+/** Returns the symbol that an alias (such as a re-export) refers to. */
+const resolveAlias = (checker: TypeChecker, symbol: ts.Symbol): ts.Symbol =>
+  (symbol.flags & TS_SYMBOL_FLAGS_ALIAS) !== 0
+    ? checker.getAliasedSymbol(symbol)
+    : symbol;
+
+/**
+ * Returns the export of a module or namespace named `name`. `"default"`
+ * also refers to the `export =` of a CommonJS-style module.
+ */
+const getExportOfModule = (
+  checker: TypeChecker,
+  moduleSymbol: ts.Symbol | undefined,
+  name: string,
+): ts.Symbol | undefined => {
+  if (!moduleSymbol) return undefined;
+  const resolved = resolveAlias(checker, moduleSymbol);
+  const found = checker
+    .getExportsOfModule(resolved)
+    .find((s) => s.getName() === name);
+  if (found || name !== "default") return found;
+  return resolved.exports?.get(ts.InternalSymbolName.ExportEquals);
+};
+
+/**
+ * Returns the type declared by a module export or global, see
+ * {@link getModuleExport}.
  *
- * Returns the resolved `ts.Type`, or `null` if the export cannot be found.
+ * @throws When the export is only a value or a namespace.
+ */
+const getModuleType = (
+  ctx: SchemaContext,
+  moduleName: string | undefined,
+  exportName: string,
+): Type => {
+  const symbol = getModuleExport(ctx, moduleName, exportName);
+  if ((symbol.flags & TS_SYMBOL_FLAGS_TYPE) === 0) {
+    throw new Error(
+      `${exportCaller(moduleName)}: ${describeExport(moduleName, exportName)} is not a type; use t.typeofExport() for values.`,
+    );
+  }
+  return ctx.checker.getDeclaredTypeOfSymbol(symbol);
+};
+
+/**
+ * Returns the type of a value exported from a module, for
+ * {@link t.typeofExport}.
  *
- * @throws When multiple ambient/resolved symbols yield different types for the
- * same export name (ambiguity).
+ * @throws In the same cases as {@link t.fromModule}, or when the export is
+ * not a value.
  */
-const resolveModuleType = (
-  checker: TypeChecker,
-  program: Program,
+const getModuleValueType = (
+  ctx: SchemaContext,
   moduleName: string,
   exportName: string,
-  sourceFile?: SourceFile,
-): Type | null => {
-  const compilerOptions = program.getCompilerOptions();
-  const containingFile = sourceFile
-    ? sourceFile.fileName
-    : program.getCurrentDirectory() + "/__typezod__.ts";
+): Type => {
+  const symbol = getModuleExport(
+    ctx,
+    moduleName,
+    exportName,
+    "t.typeofExport()",
+  );
+  if ((symbol.flags & TS_SYMBOL_FLAGS_VALUE) === 0) {
+    throw new Error(
+      `t.typeofExport(): ${describeExport(moduleName, exportName)} is not a value.`,
+    );
+  }
+  return ctx.checker.getTypeOfSymbol(symbol);
+};
 
-  let moduleSymbol: ts.Symbol | undefined;
+/** A generic module export, see {@link getGenericExport}. */
+type GenericExport = {
+  symbol: ts.Symbol;
+  /** The generic class or interface type, if not a type alias. */
+  declaredType: ts.InterfaceType | undefined;
+  typeParameterNames: string[];
+};
+
+/**
+ * Returns the generic type exported from a module, for
+ * {@link TypeSchema.of}.
+ *
+ * @throws In the same cases as {@link t.fromModule}, or when the export is
+ * not a generic class, interface or type alias.
+ */
+const getGenericExport = (
+  ctx: SchemaContext,
+  moduleName: string | undefined,
+  exportName: string,
+): GenericExport => {
+  const symbol = getModuleExport(ctx, moduleName, exportName);
+  const declaredType = ctx.checker.getDeclaredTypeOfSymbol(symbol);
+  const generic: GenericExport = declaredType.isClassOrInterface()
+    ? {
+        symbol,
+        declaredType,
+        typeParameterNames: (declaredType.typeParameters ?? []).map(
+          (typeParameter) => typeParameter.symbol.getName(),
+        ),
+      }
+    : {
+        symbol,
+        declaredType: undefined,
+        typeParameterNames: (
+          symbol.declarations?.find(ts.isTypeAliasDeclaration)
+            ?.typeParameters ?? []
+        ).map((typeParameter) => typeParameter.name.text),
+      };
+  if (generic.typeParameterNames.length === 0) {
+    throw new Error(
+      `${exportCaller(moduleName)}: ${describeExport(moduleName, exportName)} is not generic.`,
+    );
+  }
+  return generic;
+};
+
+/**
+ * Returns the type arguments of `type` if it is an instantiation of the
+ * generic, or `undefined` otherwise. Only class and interface instantiations
+ * are searched for among base types.
+ */
+const getInstantiationArguments = (
+  ctx: SchemaContext,
+  type: Type,
+  generic: GenericExport,
+  searchBaseTypes: boolean,
+): readonly Type[] | undefined => {
+  const { declaredType, typeParameterNames } = generic;
+  if (!declaredType) {
+    return type.aliasSymbol === generic.symbol
+      ? type.aliasTypeArguments
+      : undefined;
+  }
+  const isInstantiation = (candidate: Type): boolean =>
+    ((candidate as ts.ObjectType).objectFlags & TS_OBJECT_FLAGS_REFERENCE) !==
+      0 && (candidate as ts.TypeReference).target === declaredType;
+  const typeArguments = searchBaseTypes
+    ? findBaseType(ctx, type, isInstantiation)?.typeArguments
+    : isInstantiation(type)
+      ? ctx.checker.getTypeArguments(type as ts.TypeReference)
+      : undefined;
+  // Class and interface references also carry a trailing `this` argument.
+  return typeArguments?.slice(0, typeParameterNames.length);
+};
+
+/**
+ * Applies the {@link AnySourcePolicy} to the `any` types nested in a source
+ * type that the checker found assignable to `target`, which the checker does
+ * not tell apart. Walks the properties, index signatures and type arguments
+ * that `target` declares, and returns the mismatch for the first `any` that
+ * the policy rejects.
+ */
+const checkNestedAnySources = (
+  ctx: SchemaContext,
+  self: TypeSchema,
+  source: Type,
+  target: Type,
+): Mismatch | null => {
+  if ((ctx.anySource ?? "accept") === "accept") return null;
+  const { checker } = ctx;
+  const visited = new Map<Type, Set<Type>>();
+
+  const isReference = (type: Type): type is ts.TypeReference =>
+    ((type as ts.ObjectType).objectFlags & TS_OBJECT_FLAGS_REFERENCE) !== 0;
+
+  const visit = (source: Type, target: Type): Mismatch | null => {
+    // Generic exports used without type arguments accept every instantiation.
+    if (
+      source === target ||
+      isTopType(target) ||
+      (target.flags & TS_TYPE_FLAGS_TYPE_PARAMETER) !== 0
+    ) {
+      return null;
+    }
+    if ((source.flags & TS_TYPE_FLAGS_ANY) !== 0) {
+      return checkAnySource(ctx) ? mismatch(self, source, "any-source") : null;
+    }
+    let targets = visited.get(source);
+    if (!targets) {
+      targets = new Set();
+      visited.set(source, targets);
+    }
+    // Recursive types meet again; the outer visit covers them.
+    if (targets.has(target)) return null;
+    targets.add(target);
 
-  const resolved = ts.resolveModuleName(
+    if (source.isUnion()) {
+      for (const constituent of source.types) {
+        const result = visit(constituent, target);
+        if (result) return result;
+      }
+      return null;
+    }
+    if (target.isUnion()) {
+      // The source only needs to hold up as one of the members it fits.
+      let first: Mismatch | null = null;
+      for (const constituent of target.types) {
+        if (!checker.isTypeAssignableTo(source, constituent)) continue;
+        const result = visit(source, constituent);
+        if (!result) return null;
+        first ??= result;
+      }
+      return first;
+    }
+    if (target.isIntersection()) {
+      for (const constituent of target.types) {
+        const result = visit(source, constituent);
+        if (result) return result;
+      }
+      return null;
+    }
+
+    if (
+      isReference(source) &&
+      isReference(target) &&
+      (source.target === target.target ||
+        (checker.isArrayType(source) && checker.isArrayType(target)))
+    ) {
+      const sourceArguments = checker.getTypeArguments(source);
+      const typeParameters = target.target.typeParameters ?? [];
+      for (const [i, typeArgument] of checker
+        .getTypeArguments(target)
+        .slice(0, typeParameters.length)
+        .entries()) {
+        const segment = checker.isArrayType(target)
+          ? "[number]"
+          : checker.isTupleType(target)
+            ? i
+            : `<${typeParameters[i]!.symbol.getName()}>`;
+        const result = atPath(
+          segment,
+          visit(sourceArguments[i]!, typeArgument),
+        );
+        if (result) return result;
+      }
+      return null;
+    }
+
+    for (const property of checker.getPropertiesOfType(target)) {
+      const sourceProperty = checker.getPropertyOfType(
+        source,
+        property.getName(),
+      );
+      if (!sourceProperty) continue;
+      const result = atPath(
+        property.getName(),
+        visit(
+          checker.getTypeOfSymbol(sourceProperty),
+          checker.getTypeOfSymbol(property),
+        ),
+      );
+      if (result) return result;
+    }
+    const sourceInfos = checker.getIndexInfosOfType(source);
+    for (const info of checker.getIndexInfosOfType(target)) {
+      const sourceInfo = sourceInfos.find(
+        ({ keyType }) => keyType === info.keyType,
+      );
+      if (!sourceInfo) continue;
+      const result = atPath(
+        `[${checker.typeToString(info.keyType)}]`,
+        visit(sourceInfo.type, info.type),
+      );
+      if (result) return result;
+    }
+    return null;
+  };
+
+  return visit(source, target);
+};
+
+/** Builds the schemas of {@link t.fromModule} and {@link t.global}. */
+const exportSchema = (
+  moduleName: string | undefined,
+  exportName: string,
+): TypeSchema =>
+  schema({
+    kind: "fromModule",
+    check: (type, ctx, self) => {
+      const targetType = getModuleType(ctx, moduleName, exportName);
+      return ctx.checker.isTypeAssignableTo(type, targetType)
+        ? checkNestedAnySources(ctx, self, type, targetType)
+        : mismatch(self, type, "not-assignable");
+    },
+    checkFrom: (type, ctx, self) => {
+      const sourceType = getModuleType(ctx, moduleName, exportName);
+      return ctx.checker.isTypeAssignableTo(sourceType, type)
+        ? null
+        : mismatch(self, type, "not-assignable");
+    },
+    print: () => printExport(moduleName, exportName),
+    moduleExport: { moduleName, exportName },
+    compile: ({ ctx }) => getModuleType(ctx, moduleName, exportName),
+  });
+
+/** Builds the schemas behind {@link TypeSchema.of} and {@link TypeSchema.ofAny}. */
+const genericInstanceSchema = (
+  moduleName: string | undefined,
+  exportName: string,
+  typeArguments: TypeSchema[] | undefined,
+): TypeSchema => {
+  const getGeneric = (ctx: SchemaContext): GenericExport => {
+    const generic = getGenericExport(ctx, moduleName, exportName);
+    const expected = generic.typeParameterNames.length;
+    if (typeArguments && typeArguments.length !== expected) {
+      throw new Error(
+        `${exportCaller(moduleName)}: ${describeExport(moduleName, exportName)} expects ${expected} type arguments, got ${typeArguments.length}.`,
+      );
+    }
+    return generic;
+  };
+
+  const checkTypeArguments = (
+    types: readonly Type[],
+    generic: GenericExport,
+    ctx: SchemaContext,
+    direction: "_check" | "_checkFrom",
+  ): Mismatch | null => {
+    for (const [i, typeArgument] of (typeArguments ?? []).entries()) {
+      const result = atPath(
+        `<${generic.typeParameterNames[i]}>`,
+        typeArgument[direction](types[i]!, ctx),
+      );
+      if (result) return result;
+    }
+    return null;
+  };
+
+  return schema({
+    kind: "fromModule",
+    check: (type, ctx, self) => {
+      const generic = getGeneric(ctx);
+      const checkInstantiation = (candidate: Type): Mismatch | null => {
+        const types = getInstantiationArguments(ctx, candidate, generic, true);
+        return types
+          ? checkTypeArguments(types, generic, ctx, "_check")
+          : mismatch(self, candidate, "not-assignable");
+      };
+      // Instantiations of a type alias may themselves be unions.
+      return type.aliasSymbol === generic.symbol
+        ? checkInstantiation(type)
+        : checkEachConstituent(type, checkInstantiation);
+    },
+    checkFrom: (type, ctx, self) => {
+      const generic = getGeneric(ctx);
+      const checkInstantiation = (target: Type): Mismatch | null => {
+        if (isTopType(target)) return null;
+        const types = getInstantiationArguments(ctx, target, generic, false);
+        if (!types) return mismatch(self, target, "not-assignable");
+        // Any instantiation only fits an instantiation accepting everything.
+        if (!typeArguments && !types.every(isTopType)) {
+          return mismatch(self, target, "not-assignable");
+        }
+        return checkTypeArguments(types, generic, ctx, "_checkFrom");
+      };
+      return type.aliasSymbol === generic.symbol
+        ? checkInstantiation(type)
+        : checkFromSomeConstituent(type, self, checkInstantiation);
+    },
+    print: () => {
+      const ref = printExport(moduleName, exportName);
+      return typeArguments
+        ? `${ref}<${typeArguments.map((typeArgument) => `${typeArgument}`).join(", ")}>`
+        : ref;
+    },
+  });
+};
+
+/**
+ * Returns the types accepted by {@link t.enumFromModule}: the enum type
+ * itself, or the literal type of each of the given members.
+ */
+const getEnumTypes = (
+  ctx: SchemaContext,
+  moduleName: string,
+  enumName: string,
+  members: readonly string[] | undefined,
+): Type[] => {
+  const { checker } = ctx;
+  const enumSymbol = getModuleExport(
+    ctx,
     moduleName,
-    containingFile,
-    compilerOptions,
-    ts.sys,
+    enumName,
+    "t.enumFromModule()",
+  );
+  if ((enumSymbol.flags & TS_SYMBOL_FLAGS_ENUM) === 0) {
+    throw new Error(
+      `t.enumFromModule(): export "${enumName}" of module "${moduleName}" is not an enum.`,
+    );
+  }
+  if (!members) return [checker.getDeclaredTypeOfSymbol(enumSymbol)];
+
+  const enumObjectType = checker.getTypeOfSymbol(enumSymbol);
+  return members.map((member) => {
+    const memberSymbol = checker.getPropertyOfType(enumObjectType, member);
+    if (!memberSymbol) {
+      throw new Error(
+        `t.enumFromModule(): enum "${enumName}" of module "${moduleName}" has no member "${member}".`,
+      );
+    }
+    return checker.getTypeOfSymbol(memberSymbol);
+  });
+};
+
+/**
+ * Returns the class or interface type exported from a module, for
+ * {@link t.instanceOf}.
+ *
+ * @throws In the same cases as {@link t.fromModule}, or when the export is
+ * not a class or interface.
+ */
+const getClassType = (
+  ctx: SchemaContext,
+  moduleName: string | undefined,
+  exportName: string,
+): ts.InterfaceType => {
+  const declaredType = ctx.checker.getDeclaredTypeOfSymbol(
+    getModuleExport(ctx, moduleName, exportName, "t.instanceOf()"),
   );
-  if (resolved.resolvedModule) {
-    const resolvedSf = program.getSourceFile(
-      resolved.resolvedModule.resolvedFileName,
+  if (!declaredType.isClassOrInterface()) {
+    throw new Error(
+      `t.instanceOf(): ${describeExport(moduleName, exportName)} is not a class or interface.`,
+    );
+  }
+  return declaredType;
+};
+
+/**
+ * Whether the type is an instance (or instantiation) of the class or
+ * interface, or of a class or interface that extends it.
+ */
+const isInstanceOf = (
+  checker: TypeChecker,
+  type: Type,
+  classType: ts.InterfaceType,
+): boolean => {
+  if (type.isIntersection()) {
+    return type.types.some((member) =>
+      isInstanceOf(checker, member, classType),
     );
+  }
+  const target =
+    ((type as ts.ObjectType).objectFlags & TS_OBJECT_FLAGS_REFERENCE) !== 0
+      ? (type as ts.TypeReference).target
+      : type;
+  return (
+    target === classType ||
+    (target.isClassOrInterface() &&
+      checker
+        .getBaseTypes(target)
+        .some((baseType) => isInstanceOf(checker, baseType, classType)))
+  );
+};
+
+/** The properties whose string literal type names a {@link t.branded} brand. */
+const BRAND_KEYS = ["__brand", "__type", "_brand"];
+
+/** Whether a member of an intersection type is a brand, see {@link t.branded}. */
+const isBrandMember = (
+  checker: TypeChecker,
+  member: Type,
+  brand: string,
+): boolean =>
+  (member.flags & TS_TYPE_FLAGS_OBJECT) !== 0 &&
+  member.getProperties().some((propSymbol) => {
+    if (
+      propSymbol.getName() === brand ||
+      (isSymbolKeyed(propSymbol) &&
+        (propSymbol.escapedName as string).startsWith(`__@${brand}@`))
+    ) {
+      return true;
+    }
+    if (!BRAND_KEYS.includes(propSymbol.getName())) return false;
+    const propType = checker.getTypeOfSymbol(propSymbol);
+    return propType.isStringLiteral() && propType.value === brand;
+  });
+
+/**
+ * Parts of `ts.Program` that the checker relies on to resolve modules, which
+ * are present at runtime but not in the public typings. Resolution falls back
+ * when they are missing.
+ */
+type ProgramResolution = {
+  fileExists(fileName: string): boolean;
+  readFile(fileName: string): string | undefined;
+  directoryExists(directoryName: string): boolean;
+  realpath(path: string): string;
+  getModuleResolutionCache(): ts.ModuleResolutionCache | undefined;
+  forEachResolvedModule(
+    callback: (
+      resolution: ts.ResolvedModuleWithFailedLookupLocations,
+      moduleName: string,
+    ) => void,
+    file?: SourceFile,
+  ): void;
+  getRedirectFromSourceFile(
+    fileName: string,
+  ):
+    | { resolvedRef: ts.ResolvedProjectReference; outputDts?: string }
+    | undefined;
+  getDefaultResolutionModeForFile(sourceFile: SourceFile): ts.ResolutionMode;
+};
+
+/**
+ * Returns the program's own resolution of `moduleName`, from an import of the
+ * same specifier in `sourceFile`. This honors `package.json` `exports`
+ * conditions, `paths` and project references exactly as the build does.
+ * Imports in other files are ignored, since the same specifier may resolve
+ * differently there, e.g. across nested `node_modules`.
+ */
+const findProgramResolution = (
+  program: Program & Partial<ProgramResolution>,
+  moduleName: string,
+  sourceFile: SourceFile | undefined,
+): ts.ResolvedModuleFull | undefined => {
+  if (!program.forEachResolvedModule || !sourceFile) return undefined;
+  let found: ts.ResolvedModuleFull | undefined;
+  program.forEachResolvedModule(({ resolvedModule }, name) => {
+    if (!found && name === moduleName) found = resolvedModule;
+  }, sourceFile);
+  return found;
+};
+
+/**
+ * Resolves a module's symbol the way the program resolves imports:
+ * from its own resolution of the same specifier if there is one, or else with
+ * TypeScript's module resolution algorithm through `moduleResolutionHost` (by
+ * default, the host of the program), with a fallback to ambient module
+ * declarations.
+ *
+ * Returns the symbol of the module, or `undefined` if it cannot be found.
+ */
+const resolveModule = (
+  { checker, program, sourceFile, moduleResolutionHost }: SchemaContext,
+  moduleName: string,
+): ts.Symbol | undefined => {
+  const internals = program! as Program & Partial<ProgramResolution>;
+  const compilerOptions = internals.getCompilerOptions();
+  const containingFile = sourceFile
+    ? sourceFile.fileName
+    : internals.getCurrentDirectory() + "/__typezod__.ts";
+
+  let resolved = findProgramResolution(internals, moduleName, sourceFile);
+  if (!resolved) {
+    const host: ts.ModuleResolutionHost =
+      moduleResolutionHost ??
+      (internals.fileExists && internals.readFile
+        ? {
+            fileExists: (fileName) => internals.fileExists!(fileName),
+            readFile: (fileName) => internals.readFile!(fileName),
+            directoryExists: internals.directoryExists?.bind(internals),
+            realpath: internals.realpath?.bind(internals),
+            getCurrentDirectory: () => internals.getCurrentDirectory(),
+          }
+        : ts.sys);
+    resolved = ts.resolveModuleName(
+      moduleName,
+      containingFile,
+      compilerOptions,
+      host,
+      moduleResolutionHost ? undefined : internals.getModuleResolutionCache?.(),
+      sourceFile &&
+        internals.getRedirectFromSourceFile?.(sourceFile.fileName)?.resolvedRef,
+      sourceFile && internals.getDefaultResolutionModeForFile?.(sourceFile),
+    ).resolvedModule;
+  }
+
+  let moduleSymbol: ts.Symbol | undefined;
+  if (resolved) {
+    const { resolvedFileName } = resolved;
+    // Without `useSourceOfProjectReferenceRedirect`, the program contains the
+    // declaration output of referenced projects instead of their sources.
+    const outputDts =
+      internals.getRedirectFromSourceFile?.(resolvedFileName)?.outputDts;
+    const resolvedSf =
+      internals.getSourceFile(resolvedFileName) ??
+      (outputDts ? internals.getSourceFile(outputDts) : undefined);
     if (resolvedSf) {
       moduleSymbol = checker.getSymbolAtLocation(resolvedSf);
     }
@@ -370,12 +4762,616 @@ const resolveModuleType = (
       .find((s) => s.getName() === quotedName);
   }
 
-  if (!moduleSymbol) return null;
+  return moduleSymbol;
+};
+
+const PARSE_PREFIX = "type __typezod__ = ";
+
+/** Errors that already carry their position in {@link t.parse} text. */
+const positionedErrors = new WeakSet<Error>();
+
+/** Keywords and literals with a dedicated builder, for {@link t.parse}. */
+const KEYWORD_SCHEMAS: Record<string, () => TypeSchema> = {
+  number: () => t.number(),
+  string: () => t.string(),
+  boolean: () => t.boolean(),
+  void: () => t.void(),
+  undefined: () => t.undefined(),
+  null: () => t.null(),
+  bigint: () => t.bigint(),
+  symbol: () => t.symbol(),
+  "unique symbol": () => t.uniqueSymbol(),
+  object: () => t.nonPrimitive(),
+  any: () => t.any(),
+  unknown: () => t.unknown(),
+  never: () => t.never(),
+  true: () => t.literal(true),
+  false: () => t.literal(false),
+};
+
+/**
+ * Parses the text of {@link t.parse} as a type alias, and builds the schema
+ * of its type.
+ */
+const parseTypeText = (
+  text: string,
+  imports: Record<string, string>,
+): TypeSchema => {
+  const sourceFile = ts.createSourceFile(
+    "__typezod__.ts",
+    PARSE_PREFIX + text,
+    TS_SCRIPT_TARGET_LATEST,
+    true,
+  );
+
+  /** Formats a position of the source file as a position in `text`. */
+  const locate = (position: number): string => {
+    const { line, character } = ts.getLineAndCharacterOfPosition(
+      sourceFile,
+      Math.max(position, PARSE_PREFIX.length),
+    );
+    const column = line === 0 ? character - PARSE_PREFIX.length : character;
+    return `${line + 1}:${column + 1}`;
+  };
+
+  const fail = (node: ts.Node | number, problem: string): never => {
+    const position =
+      typeof node === "number" ? node : node.getStart(sourceFile);
+    throw new Error(`t.parse(): ${problem} at ${locate(position)}.`);
+  };
+
+  /** Adds the position of `node` to errors thrown while checking `inner`. */
+  const rethrowAt = (node: ts.Node, inner: TypeSchema): TypeSchema => {
+    const withPosition = (check: () => Mismatch | null): Mismatch | null => {
+      try {
+        return check();
+      } catch (error) {
+        if (!(error instanceof Error) || positionedErrors.has(error)) {
+          throw error;
+        }
+        const positioned = new Error(
+          `${error.message.replace(/\.$/, "")} (in t.parse() text at ${locate(node.getStart(sourceFile))}).`,
+          { cause: error },
+        );
+        positionedErrors.add(positioned);
+        throw positioned;
+      }
+    };
+    return schema({
+      ...inner._def,
+      check: (type, ctx) => withPosition(() => inner._check(type, ctx)),
+      checkFrom: (type, ctx) => withPosition(() => inner._checkFrom(type, ctx)),
+      print: () => `${inner}`,
+      precedence: inner._precedence,
+    });
+  };
+
+  // Syntax errors are not exposed publicly, but the parser records them.
+  const { parseDiagnostics } = sourceFile as SourceFile & {
+    parseDiagnostics: readonly ts.DiagnosticWithLocation[];
+  };
+  const [diagnostic] = parseDiagnostics;
+  if (diagnostic) {
+    const message = ts.flattenDiagnosticMessageText(
+      diagnostic.messageText,
+      " ",
+    );
+    fail(diagnostic.start, message.replace(/\.$/, ""));
+  }
+  const [statement, ...rest] = sourceFile.statements;
+  if (!statement || !ts.isTypeAliasDeclaration(statement) || rest[0]) {
+    fail(rest[0] ?? PARSE_PREFIX.length, "expected a single type");
+  }
+
+  const typeArgumentsOf = (
+    node: ts.NodeWithTypeArguments,
+    expected: number | undefined,
+    name: string,
+  ): TypeSchema[] => {
+    const typeArguments = (node.typeArguments ?? []).map(toSchema);
+    if (expected !== undefined && typeArguments.length !== expected) {
+      fail(node, `"${name}" expects ${expected} type arguments`);
+    }
+    return typeArguments;
+  };
+
+  const toModuleSchema = (
+    node: ts.NodeWithTypeArguments,
+    moduleName: string,
+    exportName: string,
+  ): TypeSchema => {
+    const exported = t.fromModule(moduleName, exportName);
+    const typeArguments = typeArgumentsOf(node, undefined, exportName);
+    return rethrowAt(
+      node,
+      typeArguments.length > 0 ? exported.of(...typeArguments) : exported,
+    );
+  };
+
+  const toGlobalSchema = (
+    node: ts.NodeWithTypeArguments,
+    name: string,
+  ): TypeSchema => {
+    const global = t.global(name);
+    const typeArguments = typeArgumentsOf(node, undefined, name);
+    return rethrowAt(
+      node,
+      typeArguments.length > 0 ? global.of(...typeArguments) : global,
+    );
+  };
+
+  const toReferenceSchema = (node: ts.TypeReferenceNode): TypeSchema => {
+    if (!ts.isIdentifier(node.typeName)) {
+      // `ns.Name` is an export path of the module that `ns` is imported
+      // from, or of a global namespace.
+      const path = entityNameText(node.typeName);
+      const [namespace] = path.split(".");
+      return Object.hasOwn(imports, namespace!)
+        ? toModuleSchema(node, imports[namespace!]!, path)
+        : toGlobalSchema(node, path);
+    }
+    const name = node.typeName.text;
+    if (Object.hasOwn(imports, name)) {
+      return toModuleSchema(node, imports[name]!, name);
+    }
+    switch (name) {
+      case "Array":
+      case "ReadonlyArray":
+        return t.array(...(typeArgumentsOf(node, 1, name) as [TypeSchema]));
+      case "Record":
+        return t.record(
+          ...(typeArgumentsOf(node, 2, name) as [TypeSchema, TypeSchema]),
+        );
+      case "Map":
+      case "ReadonlyMap": {
+        const [key, value] = typeArgumentsOf(node, 2, name);
+        return t.map(key!, value!, { readonly: name === "ReadonlyMap" });
+      }
+      case "Set":
+      case "ReadonlySet": {
+        const [value] = typeArgumentsOf(node, 1, name);
+        return t.set(value!, { readonly: name === "ReadonlySet" });
+      }
+      case "Promise":
+        return t.promise(...(typeArgumentsOf(node, 1, name) as [TypeSchema]));
+      case "PromiseLike":
+        return t.thenable(...(typeArgumentsOf(node, 1, name) as [TypeSchema]));
+      case "Iterable":
+        return t.iterable(...(typeArgumentsOf(node, 1, name) as [TypeSchema]));
+      case "AsyncIterable":
+        return t.asyncIterable(
+          ...(typeArgumentsOf(node, 1, name) as [TypeSchema]),
+        );
+      case "Function":
+      case "Date":
+      case "RegExp":
+      case "Error":
+        typeArgumentsOf(node, 0, name);
+        return t.global(name);
+    }
+    return toGlobalSchema(node, name);
+  };
+
+  /** Returns the dotted text of `a.b.c`, without whitespace or comments. */
+  const entityNameText = (name: ts.EntityName): string =>
+    ts.isIdentifier(name)
+      ? name.text
+      : `${entityNameText(name.left)}.${name.right.text}`;
+
+  const toImportSchema = (node: ts.ImportTypeNode): TypeSchema => {
+    const { argument, qualifier } = node;
+    if (
+      !ts.isLiteralTypeNode(argument) ||
+      !ts.isStringLiteral(argument.literal)
+    ) {
+      return fail(node, 'only `import("module").Name` types are supported');
+    }
+    if (!qualifier) {
+      return fail(node, "expected an exported name after `import()`");
+    }
+    const moduleName = argument.literal.text;
+    const exportName = entityNameText(qualifier);
+    if (!node.isTypeOf) return toModuleSchema(node, moduleName, exportName);
+    if (node.typeArguments) {
+      return fail(node, "`typeof import()` types take no type arguments");
+    }
+    return rethrowAt(node, t.typeofExport(moduleName, exportName));
+  };
+
+  const toLiteralSchema = (node: ts.LiteralTypeNode): TypeSchema => {
+    const { literal } = node;
+    if (
+      ts.isStringLiteral(literal) ||
+      ts.isNoSubstitutionTemplateLiteral(literal)
+    ) {
+      return t.literal(literal.text);
+    }
+    if (
+      ts.isNumericLiteral(literal) ||
+      (ts.isPrefixUnaryExpression(literal) &&
+        ts.isNumericLiteral(literal.operand))
+    ) {
+      return t.literal(Number(literal.getText(sourceFile)));
+    }
+    return fail(node, `unsupported literal type "${node.getText(sourceFile)}"`);
+  };
+
+  const toTupleSchema = (
+    node: ts.TupleTypeNode,
+    isReadonly: boolean,
+  ): TypeSchema => {
+    const elements: TypeSchema[] = [];
+    let rest: TypeSchema | undefined;
+    for (const element of node.elements) {
+      if (rest) return fail(element, "rest elements must come last");
+      let type: ts.TypeNode = element;
+      let isRest = false;
+      let isOptional = false;
+      if (ts.isNamedTupleMember(element)) {
+        type = element.type;
+        isRest = element.dotDotDotToken !== undefined;
+        isOptional = element.questionToken !== undefined;
+      } else if (ts.isRestTypeNode(element)) {
+        type = element.type;
+        isRest = true;
+      } else if (ts.isOptionalTypeNode(element)) {
+        type = element.type;
+        isOptional = true;
+      }
+      if (isRest) {
+        rest = toRestSchema(type);
+      } else {
+        const elementSchema = toSchema(type);
+        elements.push(isOptional ? elementSchema.optional() : elementSchema);
+      }
+    }
+    return t.tuple(elements, { rest, readonly: isReadonly });
+  };
+
+  /** The element schema of a rest element or parameter, e.g. `string[]`. */
+  const toRestSchema = (node: ts.TypeNode): TypeSchema => {
+    if (ts.isArrayTypeNode(node)) return toSchema(node.elementType);
+    return fail(node, "rest types must be array types");
+  };
+
+  const toSignatureShape = (
+    node: ts.SignatureDeclarationBase,
+  ): SignatureShape => {
+    if (node.typeParameters) {
+      return fail(
+        node.typeParameters[0]!,
+        "generic signatures are not supported",
+      );
+    }
+    const params: TypeSchema[] = [];
+    let rest: TypeSchema | undefined;
+    for (const param of node.parameters) {
+      if (param.dotDotDotToken) {
+        rest = param.type ? toRestSchema(param.type) : t.any();
+        continue;
+      }
+      const paramSchema = param.type ? toSchema(param.type) : t.any();
+      params.push(param.questionToken ? paramSchema.optional() : paramSchema);
+    }
+    return {
+      params,
+      rest,
+      returns: node.type ? toSchema(node.type) : t.any(),
+    };
+  };
+
+  const toPropertyName = (name: ts.PropertyName): string => {
+    if (
+      ts.isIdentifier(name) ||
+      ts.isStringLiteral(name) ||
+      ts.isNumericLiteral(name)
+    ) {
+      return name.text;
+    }
+    return fail(name, "computed property names are not supported");
+  };
+
+  const toTypeLiteralSchema = (node: ts.TypeLiteralNode): TypeSchema => {
+    const shape: Record<string, TypeSchema> = {};
+    const calls: TypeSchema[] = [];
+    const constructs: TypeSchema[] = [];
+    const records: TypeSchema[] = [];
+
+    for (const member of node.members) {
+      if (ts.isPropertySignature(member) || ts.isMethodSignature(member)) {
+        const key = toPropertyName(member.name);
+        if (Object.hasOwn(shape, key)) {
+          return fail(member.name, `duplicate property "${key}"`);
+        }
+        let propSchema = ts.isMethodSignature(member)
+          ? t.method(toSignatureShape(member))
+          : member.type
+            ? toSchema(member.type)
+            : t.any();
+        if (member.questionToken) propSchema = propSchema.optional();
+        if (
+          member.modifiers?.some(
+            (modifier) => modifier.kind === TS_SYNTAX_KIND_READONLY_KEYWORD,
+          )
+        ) {
+          propSchema = propSchema.readonly();
+        }
+        shape[key] = propSchema;
+      } else if (ts.isCallSignatureDeclaration(member)) {
+        calls.push(t.function(toSignatureShape(member)));
+      } else if (ts.isConstructSignatureDeclaration(member)) {
+        constructs.push(t.newable(toSignatureShape(member)));
+      } else if (ts.isIndexSignatureDeclaration(member)) {
+        const [param] = member.parameters;
+        if (!param?.type)
+          return fail(member, "expected an index parameter type");
+        records.push(t.record(toSchema(param.type), toSchema(member.type)));
+      } else {
+        return fail(member, "unsupported member");
+      }
+    }
+
+    const parts = [
+      ...(Object.keys(shape).length > 0 || node.members.length === 0
+        ? [t.object(shape)]
+        : []),
+      ...calls,
+      ...constructs,
+      ...records,
+    ];
+    return parts.length === 1 ? parts[0]! : t.intersection(...parts);
+  };
+
+  const toSchema = (node: ts.TypeNode): TypeSchema => {
+    const text = node.getText(sourceFile);
+    if (!ts.isTypeReferenceNode(node) && Object.hasOwn(KEYWORD_SCHEMAS, text)) {
+      return KEYWORD_SCHEMAS[text]!();
+    }
+    if (ts.isParenthesizedTypeNode(node)) return toSchema(node.type);
+    if (ts.isLiteralTypeNode(node)) return toLiteralSchema(node);
+    if (ts.isTemplateLiteralTypeNode(node)) {
+      const parts: (string | TypeSchema)[] = [node.head.text];
+      for (const span of node.templateSpans) {
+        parts.push(toSchema(span.type), span.literal.text);
+      }
+      return t.templateLiteral(parts.filter((part) => part !== ""));
+    }
+    if (ts.isUnionTypeNode(node)) return t.union(...node.types.map(toSchema));
+    if (ts.isIntersectionTypeNode(node)) {
+      return t.intersection(...node.types.map(toSchema));
+    }
+    if (ts.isArrayTypeNode(node)) return t.array(toSchema(node.elementType));
+    if (ts.isTupleTypeNode(node)) return toTupleSchema(node, false);
+    if (
+      ts.isTypeOperatorNode(node) &&
+      node.operator === TS_SYNTAX_KIND_READONLY_KEYWORD
+    ) {
+      if (ts.isTupleTypeNode(node.type)) return toTupleSchema(node.type, true);
+      if (ts.isArrayTypeNode(node.type)) {
+        return t.array(toSchema(node.type.elementType));
+      }
+    }
+    if (ts.isFunctionTypeNode(node)) {
+      return t.function(toSignatureShape(node));
+    }
+    if (ts.isConstructorTypeNode(node)) {
+      return t.newable(toSignatureShape(node));
+    }
+    if (ts.isTypeLiteralNode(node)) return toTypeLiteralSchema(node);
+    if (ts.isTypeReferenceNode(node)) return toReferenceSchema(node);
+    if (ts.isImportTypeNode(node)) return toImportSchema(node);
+    return fail(node, `unsupported type syntax "${text}"`);
+  };
+
+  return toSchema((statement as ts.TypeAliasDeclaration).type);
+};
+
+/** The state of a {@link compileSchema} call, passed to `compile` hooks. */
+type Compiler = {
+  ctx: SchemaContext;
+
+  /** Compiles a nested schema, or returns `undefined` if it cannot be. */
+  compile: (schema: TypeSchema) => Type | undefined;
+
+  /**
+   * Records the type of a schema before its members are compiled, so that
+   * recursive references to the schema resolve to it.
+   */
+  declare: (schema: TypeSchema, type: Type) => void;
+};
+
+/**
+ * Per-checker cache of {@link compileSchema} results, by source file and
+ * module resolution host.
+ */
+const compiledSchemaCache = new WeakMap<
+  TypeChecker,
+  Map<
+    SourceFile | undefined,
+    Map<ts.ModuleResolutionHost | undefined, WeakMap<TypeSchema, Type | null>>
+  >
+>();
+
+/**
+ * Type factories that the checker exposes at runtime, but not in its public
+ * typings. {@link compileSchema} falls back when they are missing.
+ */
+type TypeFactories = {
+  getUnionType(types: readonly Type[]): Type;
+  createArrayType(elementType: Type, readonly?: boolean): Type;
+  createSymbol(
+    flags: number,
+    name: ts.__String,
+  ): ts.Symbol & { links: { type?: Type } };
+  createAnonymousType(
+    symbol: ts.Symbol | undefined,
+    members: ts.SymbolTable,
+    callSignatures: readonly Signature[],
+    constructSignatures: readonly Signature[],
+    indexInfos: readonly ts.IndexInfo[],
+  ): Type;
+  createSignature(
+    declaration: ts.SignatureDeclaration | undefined,
+    typeParameters: undefined,
+    thisParameter: undefined,
+    parameters: readonly ts.Symbol[],
+    resolvedReturnType: Type,
+    resolvedTypePredicate: undefined,
+    minArgumentCount: number,
+    flags: number,
+  ): Signature;
+  createIndexInfo(keyType: Type, type: Type, isReadonly: boolean): ts.IndexInfo;
+};
+
+const TYPE_FACTORY_NAMES = [
+  "getUnionType",
+  "createArrayType",
+  "createSymbol",
+  "createAnonymousType",
+  "createSignature",
+  "createIndexInfo",
+] as const satisfies readonly (keyof TypeFactories)[];
+
+const hasTypeFactories = (checker: TypeChecker): boolean =>
+  TYPE_FACTORY_NAMES.every(
+    (name) => typeof (checker as Partial<TypeFactories>)[name] === "function",
+  );
+
+const getTypeFactories = (checker: TypeChecker): TypeFactories =>
+  checker as TypeChecker & TypeFactories;
+
+/** Compiles each schema, or returns `undefined` if one cannot be compiled. */
+const compileAll = (
+  compiler: Compiler,
+  schemas: readonly TypeSchema[],
+): Type[] | undefined => {
+  const types: Type[] = [];
+  for (const schema of schemas) {
+    const type = compiler.compile(schema);
+    if (!type) return undefined;
+    types.push(type);
+  }
+  return types;
+};
+
+/** Creates an anonymous object type, like a type literal. */
+const createObjectType = (
+  checker: TypeChecker,
+  members: ts.SymbolTable,
+  callSignatures: readonly Signature[] = [],
+  constructSignatures: readonly Signature[] = [],
+  indexInfos: readonly ts.IndexInfo[] = [],
+): Type => {
+  const factories = getTypeFactories(checker);
+  const symbol = factories.createSymbol(
+    TS_SYMBOL_FLAGS_TYPE_LITERAL,
+    "__type" as ts.__String,
+  );
+  symbol.members = members;
+  return factories.createAnonymousType(
+    symbol,
+    members,
+    callSignatures,
+    constructSignatures,
+    indexInfos,
+  );
+};
+
+/**
+ * Compiles a {@link t.object} shape. The object type is declared before the
+ * types of its properties are compiled, so that recursive schemas
+ * ({@link t.lazy}) compile to recursive types.
+ */
+const compileObject = (
+  compiler: Compiler,
+  self: TypeSchema,
+  shape: Record<string, TypeSchema>,
+): Type | undefined => {
+  const factories = getTypeFactories(compiler.ctx.checker);
+  const members: ts.SymbolTable = new Map();
+  const props = Object.entries(shape).map(([key, propSchema]) => {
+    const propSymbol = factories.createSymbol(
+      TS_SYMBOL_FLAGS_PROPERTY |
+        (propSchema._isOptional ? TS_SYMBOL_FLAGS_OPTIONAL : 0),
+      ts.escapeLeadingUnderscores(key),
+    );
+    members.set(propSymbol.escapedName, propSymbol);
+    return [propSymbol, propSchema] as const;
+  });
+
+  const type = createObjectType(compiler.ctx.checker, members);
+  compiler.declare(self, type);
+  for (const [propSymbol, propSchema] of props) {
+    const propType = compiler.compile(propSchema);
+    if (!propType) return undefined;
+    // Like a declared optional property, without `exactOptionalPropertyTypes`.
+    propSymbol.links.type = propSchema._isOptional
+      ? factories.getUnionType([
+          propType,
+          compiler.ctx.checker.getUndefinedType(),
+        ])
+      : propType;
+  }
+  return type;
+};
+
+/**
+ * Compiles a {@link SignatureShape}. Method signatures get a synthesized
+ * method declaration, which is what makes the checker compare their
+ * parameters bivariantly.
+ */
+const compileSignature = (
+  compiler: Compiler,
+  shape: SignatureShape,
+  isMethod: boolean,
+): Signature | undefined => {
+  const { checker } = compiler.ctx;
+  const factories = getTypeFactories(checker);
+  const params = shape.params ?? [];
+
+  const paramTypes = compileAll(compiler, params);
+  const restType = shape.rest && compiler.compile(shape.rest);
+  const returnType = shape.returns
+    ? compiler.compile(shape.returns)
+    : checker.getUnknownType();
+  if (!paramTypes || (shape.rest && !restType) || !returnType) {
+    return undefined;
+  }
 
-  const exportSymbol = checker
-    .getExportsOfModule(moduleSymbol)
-    .find((s) => s.getName() === exportName);
-  if (!exportSymbol) return null;
+  const createParameter = (name: string, type: Type): ts.Symbol => {
+    const param = factories.createSymbol(
+      TS_SYMBOL_FLAGS_FUNCTION_SCOPED_VARIABLE,
+      ts.escapeLeadingUnderscores(name),
+    );
+    param.links.type = type;
+    return param;
+  };
+  const parameters = paramTypes.map((type, i) =>
+    createParameter(`arg${i}`, type),
+  );
+  if (restType) {
+    parameters.push(
+      createParameter("rest", factories.createArrayType(restType)),
+    );
+  }
 
-  return checker.getDeclaredTypeOfSymbol(exportSymbol);
+  return factories.createSignature(
+    isMethod
+      ? ts.factory.createMethodSignature(
+          undefined,
+          "method",
+          undefined,
+          undefined,
+          [],
+          undefined,
+        )
+      : undefined,
+    undefined,
+    undefined,
+    parameters,
+    returnType,
+    undefined,
+    params.findLastIndex((param) => !param._isOptional) + 1,
+    restType ? TS_SIGNATURE_FLAGS_HAS_REST_PARAMETER : 0,
+  );
 };
@@ -0,0 +1,298 @@
+import ts, {
+  type CompilerOptions,
+  type ModuleKind,
+  type ModuleResolutionKind,
+  type Program,
+  type ScriptTarget,
+  type SourceFile,
+  type SymbolFlags,
+  type Type,
+  type TypeChecker,
+} from "typescript";
+
+import { explain, type SchemaContext, type TypeSchema } from "./index";
+
+const TS_SCRIPT_TARGET_LATEST = 99 satisfies ScriptTarget.Latest;
+const TS_MODULE_KIND_ESNEXT = 99 satisfies ModuleKind.ESNext;
+const TS_MODULE_RESOLUTION_KIND_BUNDLER =
+  100 satisfies ModuleResolutionKind.Bundler;
+const TS_SYMBOL_FLAGS_VALUE = 111551 satisfies SymbolFlags.Value;
+const TS_SYMBOL_FLAGS_TYPE = 788968 satisfies SymbolFlags.Type;
+
+/** The directory that the files of a test program live in. */
+const ROOT = "/typezod/";
+
+/** Options for {@link createTestProgram}. */
+export type TestProgramOptions = {
+  /**
+   * The file that {@link TestProgram.typeOf} and {@link TestProgram.typeAt}
+   * look into, and the `sourceFile` of the context. Defaults to `"test.ts"`.
+   */
+  entry?: string;
+
+  /**
+   * Defaults to `strict` checks of the latest language version, with
+   * `bundler` module resolution.
+   */
+  compilerOptions?: CompilerOptions;
+};
+
+/** A program built by {@link createTestProgram}. */
+export type TestProgram = {
+  program: Program;
+  checker: TypeChecker;
+  sourceFile: SourceFile;
+
+  /** The context to check types of the program with. */
+  ctx: SchemaContext;
+
+  /**
+   * Returns the type of a name in scope at the end of the entry file: the
+   * type of a variable, function or class, or else the declared type of an
+   * interface or type alias.
+   *
+   * @throws When no such name is in scope.
+   */
+  typeOf: (name: string) => Type;
+
+  /**
+   * Returns the type of the innermost node right after a `/*@marker*\/`
+   * comment in the entry file, or after `/*@*\/` when `marker` is omitted. The
+   * type is the one at that location, narrowed by control flow.
+   *
+   * @throws When the marker is missing or appears more than once.
+   */
+  typeAt: (marker?: string) => Type;
+};
+
+/** Lib files, shared between test programs since they never change. */
+const libSourceFiles = new Map<string, SourceFile>();
+
+/** The context that each type returned by a {@link TestProgram} belongs to. */
+const typeContexts = new WeakMap<Type, SchemaContext>();
+
+/**
+ * Builds a program from source files held in memory, keyed by their path
+ * relative to the project root, e.g. `"test.ts"` or
+ * `"node_modules/electron/index.d.ts"`. Only the lib files of TypeScript are
+ * read from disk. Ambient modules can be declared in any `.d.ts` file.
+ *
+ * @example
+ * ```typescript
+ * const { ctx, typeOf, typeAt } = createTestProgram({
+ *   "node_modules/electron/index.d.ts": "export class BaseWindow {}",
+ *   "test.ts": `
+ *     import { BaseWindow } from "electron";
+ *     declare const win: BaseWindow | null;
+ *     if (win) /*@*\/win;
+ *   `,
+ * });
+ * isAssignableTo(ctx, typeAt(), t.fromModule("electron", "BaseWindow"));
+ * ```
+ *
+ * @throws When the entry file is not among `files`.
+ */
+export function createTestProgram(
+  files: Record<string, string>,
+  options: TestProgramOptions = {},
+): TestProgram {
+  const {
+    entry = "test.ts",
+    compilerOptions = {
+      strict: true,
+      target: TS_SCRIPT_TARGET_LATEST,
+      module: TS_MODULE_KIND_ESNEXT,
+      moduleResolution: TS_MODULE_RESOLUTION_KIND_BUNDLER,
+    },
+  } = options;
+  const entryName = ROOT + entry;
+  if (!Object.hasOwn(files, entry)) {
+    throw new Error(`createTestProgram(): missing entry file "${entry}".`);
+  }
+
+  const virtualFiles = new Map(
+    Object.entries(files).map(([name, text]) => [ROOT + name, text]),
+  );
+  const libFileName = ts.getDefaultLibFilePath(compilerOptions);
+  const libDirectory = libFileName.slice(0, libFileName.lastIndexOf("/"));
+  const isLibFile = (fileName: string): boolean =>
+    fileName.startsWith(`${libDirectory}/`);
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = virtualFiles.get(fileName);
+      if (text !== undefined) {
+        return ts.createSourceFile(fileName, text, languageVersion, true);
+      }
+      if (!isLibFile(fileName)) return undefined;
+      let sourceFile = libSourceFiles.get(fileName);
+      if (!sourceFile) {
+        const libText = ts.sys.readFile(fileName);
+        if (libText === undefined) return undefined;
+        sourceFile = ts.createSourceFile(fileName, libText, languageVersion);
+        libSourceFiles.set(fileName, sourceFile);
+      }
+      return sourceFile;
+    },
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    writeFile: () => {},
+    getCurrentDirectory: () => ROOT,
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => "\n",
+    fileExists: (fileName) =>
+      virtualFiles.has(fileName) ||
+      (isLibFile(fileName) && ts.sys.fileExists(fileName)),
+    readFile: (fileName) =>
+      virtualFiles.get(fileName) ??
+      (isLibFile(fileName) ? ts.sys.readFile(fileName) : undefined),
+    directoryExists: (directoryName) =>
+      [...virtualFiles.keys()].some((fileName) =>
+        fileName.startsWith(`${directoryName.replace(/\/$/, "")}/`),
+      ),
+    getDirectories: () => [],
+  };
+
+  // As in a project, packages are only included when imported.
+  const rootNames = Object.keys(files)
+    .filter(
+      (name) => /\.[cm]?tsx?$/.test(name) && !/(^|\/)node_modules\//.test(name),
+    )
+    .map((name) => ROOT + name);
+  const program = ts.createProgram(rootNames, compilerOptions, host);
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(entryName)!;
+  const ctx: SchemaContext = { checker, program, sourceFile };
+
+  const register = (type: Type): Type => {
+    typeContexts.set(type, ctx);
+    return type;
+  };
+
+  const typeOf = (name: string): Type => {
+    const symbol = checker
+      .getSymbolsInScope(
+        sourceFile.endOfFileToken,
+        TS_SYMBOL_FLAGS_VALUE | TS_SYMBOL_FLAGS_TYPE,
+      )
+      .find((candidate) => candidate.getName() === name);
+    if (!symbol) {
+      throw new Error(`typeOf(): "${name}" is not in scope in "${entry}".`);
+    }
+    return register(
+      (symbol.flags & TS_SYMBOL_FLAGS_VALUE) !== 0
+        ? checker.getTypeOfSymbol(symbol)
+        : checker.getDeclaredTypeOfSymbol(symbol),
+    );
+  };
+
+  const typeAt = (marker = ""): Type => {
+    const comment = `/*@${marker}*/`;
+    const { text } = sourceFile;
+    const index = text.indexOf(comment);
+    if (index === -1 || text.indexOf(comment, index + 1) !== -1) {
+      throw new Error(
+        `typeAt(): expected exactly one ${comment} marker in "${entry}".`,
+      );
+    }
+    const end = index + comment.length;
+    const position = end + /^\s*/.exec(text.slice(end))![0].length;
+    const node = findNodeAt(sourceFile, sourceFile, position);
+    if (!node) {
+      throw new Error(`typeAt(): no node follows the ${comment} marker.`);
+    }
+    return register(checker.getTypeAtLocation(node));
+  };
+
+  return { program, checker, sourceFile, ctx, typeOf, typeAt };
+}
+
+/** Returns the innermost node that starts at the position, if any. */
+const findNodeAt = (
+  sourceFile: SourceFile,
+  node: ts.Node,
+  position: number,
+): ts.Node | undefined => {
+  if (node.getStart(sourceFile) > position || node.end <= position) {
+    return undefined;
+  }
+  return (
+    ts.forEachChild(node, (child) => findNodeAt(sourceFile, child, position)) ??
+    (node.getStart(sourceFile) === position ? node : undefined)
+  );
+};
+
+/**
+ * The matchers of {@link schemaMatchers}, for declaring them on the
+ * assertion type of the test framework:
+ *
+ * ```typescript
+ * declare module "vitest" {
+ *   interface Assertion<T> extends SchemaMatchers<T> {}
+ * }
+ * ```
+ */
+export interface SchemaMatchers<R = unknown> {
+  /**
+   * Checks that the type is assignable to the schema, as
+   * {@link isAssignableTo} does. Types from a {@link TestProgram} carry their
+   * context; pass `ctx` for other types.
+   */
+  toMatchSchema(schema: TypeSchema, ctx?: SchemaContext): R;
+}
+
+/** The result of a matcher, as Vitest and Jest expect it. */
+type MatcherResult = {
+  pass: boolean;
+  message: () => string;
+  actual?: unknown;
+  expected?: unknown;
+};
+
+/**
+ * Matchers for `expect.extend()` of Vitest or Jest. On failure, the message
+ * locates the mismatch, and the diff compares the printed type with the
+ * printed schema.
+ *
+ * @example
+ * ```typescript
+ * expect.extend(schemaMatchers);
+ * expect(typeOf("bounds")).toMatchSchema(Rectangle);
+ * ```
+ */
+export const schemaMatchers = {
+  toMatchSchema(
+    this: { isNot: boolean },
+    received: Type,
+    schema: TypeSchema,
+    ctx: SchemaContext | undefined = typeContexts.get(received),
+  ): MatcherResult {
+    if (!ctx) {
+      throw new Error(
+        "toMatchSchema() expects a type from createTestProgram(), or a context.",
+      );
+    }
+    const result = explain(ctx, received, schema);
+    const actual = ctx.checker.typeToString(received);
+    const expected = `${schema}`;
+    if (result.ok) {
+      return {
+        pass: true,
+        message: () =>
+          `expected type \`${actual}\` not to match schema \`${expected}\``,
+      };
+    }
+    const location =
+      result.path.length > 0 ? ` at \`${result.path.join(".")}\`` : "";
+    return {
+      pass: false,
+      message: () =>
+        `expected type \`${actual}\` to match schema \`${expected}\`\n\n` +
+        `Mismatch${location} (${result.reason}): type ` +
+        `\`${ctx.checker.typeToString(result.type)}\` does not match ` +
+        `\`${result.schema}\``,
+      actual,
+      expected,
+    };
+  },
+};
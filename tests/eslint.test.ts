@@ -0,0 +1,235 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import type { TSESLint } from "@typescript-eslint/utils";
+import { afterAll, describe, it } from "vitest";
+
+import {
+  createSchemaContext,
+  defineSchemaRule,
+  typeOf,
+} from "../src/eslint.ts";
+import { isAssignableTo, t } from "../src/index.ts";
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.itOnly = it.only;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: { allowDefaultProject: ["*.ts"] },
+      tsconfigRootDir: import.meta.dirname,
+    },
+  },
+});
+
+const Rectangle = t.object({
+  x: t.number(),
+  y: t.number(),
+  width: t.number(),
+  height: t.number(),
+});
+
+ruleTester.run(
+  "defineSchemaRule()",
+  defineSchemaRule({
+    schemas: { Rectangle, Listener: t.function({ params: [t.string()] }) },
+    selectors: {
+      "CallExpression[callee.name='setBounds'] > .arguments": "Rectangle",
+      "CallExpression[callee.name='listen'] > .arguments": "Listener",
+    },
+  }),
+  {
+    valid: [
+      `
+        declare function setBounds(bounds: unknown): void;
+        setBounds({ x: 0, y: 0, width: 10, height: 10 });
+      `,
+      `
+        declare function listen(listener: unknown): void;
+        listen((event: string) => {});
+        listen(() => {});
+      `,
+    ],
+    invalid: [
+      {
+        code: `
+          declare function setBounds(bounds: unknown): void;
+          setBounds({ x: 0, y: 0 });
+        `,
+        errors: [
+          {
+            messageId: "mismatch",
+            data: {
+              schema: "{ x: number; y: number; width: number; height: number }",
+              type: "{ x: number; y: number; }",
+            },
+          },
+        ],
+      },
+      {
+        code: `
+          declare function listen(listener: unknown): void;
+          listen((event: number) => {});
+        `,
+        errors: [{ messageId: "mismatch", line: 3, column: 18 }],
+      },
+    ],
+  },
+);
+
+ruleTester.run(
+  "defineSchemaRule() with a custom message",
+  defineSchemaRule({
+    schemas: { Rectangle },
+    selectors: { "VariableDeclarator[id.name=/Bounds$/] > .init": "Rectangle" },
+    message: "Invalid `{{ path }}` ({{ reason }}), expected `{{ schema }}`.",
+  }),
+  {
+    valid: ["const windowBounds = { x: 0, y: 0, width: 1, height: 1 };"],
+    invalid: [
+      {
+        code: "const windowBounds = { x: 0, y: 0, width: 1, height: '1' };",
+        errors: [
+          {
+            messageId: "mismatch",
+            data: {
+              path: "height",
+              reason: "not-assignable",
+              schema: "{ x: number; y: number; width: number; height: number }",
+            },
+          },
+        ],
+      },
+    ],
+  },
+);
+
+ruleTester.run(
+  "defineSchemaRule() with an anySource policy",
+  defineSchemaRule({
+    schemas: { Rectangle },
+    selectors: { "VariableDeclarator[id.name=/Bounds$/] > .init": "Rectangle" },
+    anySource: "report",
+    anySourceMessage: "`{{ path }}` is `any` ({{ reason }}).",
+  }),
+  {
+    valid: ["const windowBounds = { x: 0, y: 0, width: 1, height: 1 };"],
+    invalid: [
+      {
+        code: `
+          declare const width: any;
+          const windowBounds = { x: 0, y: 0, width, height: 1 };
+        `,
+        errors: [
+          {
+            messageId: "anySource",
+            data: { path: "width", reason: "any-source" },
+          },
+        ],
+      },
+    ],
+  },
+);
+
+ruleTester.run(
+  "defineSchemaRule() rejecting any",
+  defineSchemaRule({
+    schemas: { Rectangle },
+    selectors: { "VariableDeclarator[id.name=/Bounds$/] > .init": "Rectangle" },
+    anySource: "reject",
+  }),
+  {
+    valid: [],
+    invalid: [
+      {
+        code: "const windowBounds = JSON.parse('{}');",
+        errors: [
+          {
+            messageId: "mismatch",
+            data: {
+              schema: "{ x: number; y: number; width: number; height: number }",
+              type: "any",
+            },
+          },
+        ],
+      },
+    ],
+  },
+);
+
+ruleTester.run(
+  "defineSchemaRule() with contextual types",
+  defineSchemaRule({
+    schemas: { Rectangle },
+    selectors: {
+      "CallExpression[callee.name='setBounds'] > .arguments": "Rectangle",
+      "ExpressionStatement > Identifier.expression": "Rectangle",
+    },
+    typeView: "contextual",
+  }),
+  {
+    valid: [
+      `
+        declare function setBounds(bounds: {
+          x: number; y: number; width: number; height: number;
+        }): void;
+        setBounds({ x: 0, y: 0, width: 10, height: 10 });
+      `,
+      // Nothing is expected of the expression of a statement.
+      `
+        declare const bounds: { x: number };
+        bounds;
+      `,
+    ],
+    invalid: [
+      {
+        code: `
+          declare function setBounds(bounds: { x: number; y: number }): void;
+          setBounds({ x: 0, y: 0, width: 10, height: 10 });
+        `,
+        errors: [
+          {
+            messageId: "mismatch",
+            data: {
+              schema: "{ x: number; y: number; width: number; height: number }",
+              type: "{ x: number; y: number; }",
+            },
+          },
+        ],
+      },
+    ],
+  },
+);
+
+const noStringCallees: TSESLint.RuleModule<"callee"> = {
+  meta: { type: "problem", messages: { callee: "Callee" }, schema: [] },
+  defaultOptions: [],
+  create: (context) => ({
+    CallExpression(node) {
+      const ctx = createSchemaContext(context, node);
+      if (!ctx.sourceFile?.fileName.endsWith(context.filename)) {
+        throw new Error(`Unexpected source file ${ctx.sourceFile?.fileName}`);
+      }
+      if (
+        isAssignableTo(
+          ctx,
+          typeOf(context, node.callee),
+          t.function({ returns: t.string() }),
+        )
+      ) {
+        context.report({ node, messageId: "callee" });
+      }
+    },
+  }),
+};
+
+ruleTester.run("createSchemaContext() and typeOf()", noStringCallees, {
+  valid: ["declare function f(): number; f();"],
+  invalid: [
+    {
+      code: "declare function f(): string; f();",
+      errors: [{ messageId: "callee" }],
+    },
+  ],
+});
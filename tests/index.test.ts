@@ -4,7 +4,23 @@ import { tmpdir } from "node:os";
 import ts from "typescript";
 import { afterAll, describe, expect, test } from "vitest";
 
-import { t, isAssignableTo, type SchemaContext } from "../src/index.ts";
+import {
+  t,
+  compileSchema,
+  explain,
+  explainVariants,
+  getCacheStats,
+  getSourceType,
+  isAssignableTo,
+  isAssignableFrom,
+  isEquivalentTo,
+  match,
+  type TypeSchema,
+  printSchema,
+  type SchemaContext,
+} from "../src/index.ts";
+
+const sharedSourceFiles = new Map<string, ts.SourceFile>();
 
 /**
  * Test harness: writes source files to a temp directory, compiles a real
@@ -26,7 +42,20 @@ const createTestContext = (
   }
 
   const fileNames = Object.keys(files).map((f) => join(dir, f));
-  const program = ts.createProgram(fileNames, { strict: true });
+  const options: ts.CompilerOptions = { strict: true };
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile } = host;
+  host.getSourceFile = (fileName, ...args) => {
+    if (fileName.startsWith(dir)) return getSourceFile(fileName, ...args);
+    // Share lib and package declarations between test programs.
+    let sourceFile = sharedSourceFiles.get(fileName);
+    if (!sourceFile) {
+      sourceFile = getSourceFile(fileName, ...args);
+      if (sourceFile) sharedSourceFiles.set(fileName, sourceFile);
+    }
+    return sourceFile;
+  };
+  const program = ts.createProgram(fileNames, options, host);
   const checker = program.getTypeChecker();
   const sourceFile = program.getSourceFile(join(dir, entryName))!;
 
@@ -117,6 +146,280 @@ describe("primitives", () => {
   });
 });
 
+describe("bigint, symbol, never, object and lib types", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      const big: bigint = 1n;
+      const literal1n = 1n as const;
+      const sym: symbol = Symbol();
+      const uniqueSym = Symbol("unique");
+      const num: number = 0;
+      const str: string = "";
+      const nul: null = null;
+      declare const nev: never;
+      declare const anyValue: any;
+      const obj: { x: number } = { x: 0 };
+      const arr: number[] = [];
+      const fn = (x: number) => x;
+      class Widget {}
+      const widgetClass = Widget;
+      const date = new Date();
+      const regExp = /a/;
+      const error = new TypeError("oops");
+      const errorLike: { name: string; message: string } = error;
+      const maybeDate: Date | string = "";
+    `,
+  });
+
+  test("t.bigint() matches bigint and bigint literals", () => {
+    expect(isAssignableTo(ctx, getTypeOf("big"), t.bigint())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("literal1n"), t.bigint())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("num"), t.bigint())).toBe(false);
+  });
+
+  test("t.symbol() matches symbol and unique symbols", () => {
+    expect(isAssignableTo(ctx, getTypeOf("sym"), t.symbol())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("uniqueSym"), t.symbol())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("str"), t.symbol())).toBe(false);
+  });
+
+  test("t.uniqueSymbol() only matches unique symbols", () => {
+    expect(isAssignableTo(ctx, getTypeOf("uniqueSym"), t.uniqueSymbol())).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("sym"), t.uniqueSymbol())).toBe(false);
+    expect(isAssignableFrom(ctx, getTypeOf("sym"), t.uniqueSymbol())).toBe(
+      true,
+    );
+  });
+
+  test("t.never() only matches never", () => {
+    expect(isAssignableTo(ctx, getTypeOf("nev"), t.never())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("nul"), t.never())).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("anyValue"), t.never())).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("nev"), t.union())).toBe(false);
+    expect(isAssignableFrom(ctx, getTypeOf("num"), t.never())).toBe(true);
+  });
+
+  test("t.nonPrimitive() matches objects and rejects primitives", () => {
+    expect(isAssignableTo(ctx, getTypeOf("obj"), t.nonPrimitive())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("arr"), t.nonPrimitive())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("fn"), t.nonPrimitive())).toBe(true);
+    for (const name of ["num", "str", "big", "sym", "nul"]) {
+      expect(isAssignableTo(ctx, getTypeOf(name), t.nonPrimitive())).toBe(
+        false,
+      );
+    }
+  });
+
+  test("t.callable() matches functions and classes", () => {
+    expect(isAssignableTo(ctx, getTypeOf("fn"), t.callable())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("widgetClass"), t.callable())).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("obj"), t.callable())).toBe(false);
+  });
+
+  test("t.date(), t.regExp() and t.error() match the lib classes", () => {
+    expect(isAssignableTo(ctx, getTypeOf("date"), t.date())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("maybeDate"), t.date())).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("regExp"), t.regExp())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("date"), t.regExp())).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("error"), t.error())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("errorLike"), t.error())).toBe(true);
+    expect(
+      isAssignableTo(ctx, getTypeOf("errorLike"), t.instanceOf(t.error())),
+    ).toBe(false);
+    expect(
+      isAssignableTo(ctx, getTypeOf("error"), t.instanceOf(t.error())),
+    ).toBe(true);
+  });
+
+  test("prints as TypeScript types", () => {
+    expect(
+      `${t.union(t.bigint(), t.symbol(), t.uniqueSymbol(), t.never(), t.nonPrimitive())}`,
+    ).toBe("bigint | symbol | unique symbol | never | object");
+    expect(`${t.union(t.callable(), t.date(), t.regExp(), t.error())}`).toBe(
+      "Function | Date | RegExp | Error",
+    );
+  });
+
+  test("t.parse() supports the keywords and lib types", () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("uniqueSym"),
+        t.parse("bigint | unique symbol"),
+      ),
+    ).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("nev"), t.parse("never"))).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("num"), t.parse("object"))).toBe(
+      false,
+    );
+    expect(`${t.parse("Date | RegExp | Error | Function | symbol")}`).toBe(
+      "Date | RegExp | Error | Function | symbol",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Literals, enums and template literals
+// ---------------------------------------------------------------------------
+
+describe("t.literal() and t.enum()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      const click = "click" as const;
+      const hover = "hover" as const;
+      const str: string = "";
+      const answer = 42 as const;
+      const yes = true as const;
+      const bool: boolean = true;
+      const method: "GET" | "POST" = "GET";
+      const anyMethod: "GET" | "POST" | "DELETE" = "GET";
+    `,
+  });
+
+  test("t.literal() matches the exact value", () => {
+    expect(isAssignableTo(ctx, getTypeOf("click"), t.literal("click"))).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("hover"), t.literal("click"))).toBe(
+      false,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("answer"), t.literal(42))).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("yes"), t.literal(true))).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("yes"), t.literal(false))).toBe(false);
+  });
+
+  test("t.literal() rejects the widened type", () => {
+    expect(isAssignableTo(ctx, getTypeOf("str"), t.literal("click"))).toBe(
+      false,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("bool"), t.literal(true))).toBe(false);
+  });
+
+  test("t.enum() matches any of the values", () => {
+    const Method = t.enum(["GET", "POST"]);
+    expect(isAssignableTo(ctx, getTypeOf("method"), Method)).toBe(true);
+    expect(explain(ctx, getTypeOf("anyMethod"), Method)).toMatchObject({
+      ok: false,
+      reason: "no-matching-member",
+    });
+  });
+});
+
+describe("t.templateLiteral()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      const onClick = "onClick" as const;
+      const click = "click" as const;
+      const handlerName: \`on\${string}\` = "onX";
+      const handlerOrClick: \`on\${string}\` | "click" = "click";
+      const str: string = "";
+      const size = "12px" as const;
+      const badSize = "twelvepx" as const;
+      const numberSize: \`\${number}px\` = "1px";
+      const num: number = 0;
+    `,
+  });
+
+  const Handler = t.templateLiteral(["on", t.string()]);
+  const Size = t.templateLiteral([t.number(), "px"]);
+
+  test("matches string literals against the pattern", () => {
+    expect(isAssignableTo(ctx, getTypeOf("onClick"), Handler)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("click"), Handler)).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("size"), Size)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("badSize"), Size)).toBe(false);
+  });
+
+  test("matches template literal types against the pattern", () => {
+    expect(isAssignableTo(ctx, getTypeOf("handlerName"), Handler)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("numberSize"), Size)).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("numberSize"),
+        t.templateLiteral([t.string(), "px"]),
+      ),
+    ).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("handlerName"), Size)).toBe(false);
+  });
+
+  test("requires every union constituent to match", () => {
+    expect(explain(ctx, getTypeOf("handlerOrClick"), Handler)).toMatchObject({
+      ok: false,
+      reason: "not-assignable",
+    });
+  });
+
+  test("rejects non-literal strings and other types", () => {
+    expect(isAssignableTo(ctx, getTypeOf("str"), Handler)).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("num"), Handler)).toBe(false);
+    expect(
+      isAssignableTo(ctx, getTypeOf("str"), t.templateLiteral([t.string()])),
+    ).toBe(true);
+  });
+
+  test("supports literal unions in holes", () => {
+    const Edge = t.templateLiteral([
+      t.enum(["top", "bottom"]),
+      "-",
+      t.enum(["left", "right"]),
+    ]);
+    const { checker } = ctx;
+    expect(
+      isAssignableTo(ctx, checker.getStringLiteralType("top-left"), Edge),
+    ).toBe(true);
+    expect(
+      isAssignableTo(ctx, checker.getStringLiteralType("top-middle"), Edge),
+    ).toBe(false);
+  });
+
+  test("checks in reverse against template literal types", () => {
+    const handlerName = getTypeOf("handlerName");
+    expect(isEquivalentTo(ctx, handlerName, Handler)).toBe(true);
+    expect(isEquivalentTo(ctx, getTypeOf("numberSize"), Size)).toBe(true);
+    expect(isAssignableFrom(ctx, handlerName, Size)).toBe(false);
+    expect(
+      isAssignableFrom(ctx, handlerName, t.templateLiteral(["on", t.number()])),
+    ).toBe(true);
+    expect(
+      isAssignableFrom(
+        ctx,
+        getTypeOf("numberSize"),
+        t.templateLiteral([t.literal(12), "px"]),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableFrom(
+        ctx,
+        getTypeOf("numberSize"),
+        t.templateLiteral(["12", "px"]),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableFrom(
+        ctx,
+        getTypeOf("numberSize"),
+        t.templateLiteral([t.string(), "px"]),
+      ),
+    ).toBe(false);
+    expect(isAssignableFrom(ctx, getTypeOf("handlerOrClick"), Handler)).toBe(
+      true,
+    );
+    expect(isAssignableFrom(ctx, getTypeOf("str"), Size)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("num"), Size)).toBe(false);
+  });
+
+  test("throws for schemas that cannot be used in holes", () => {
+    expect(() => t.templateLiteral([t.object({})])).toThrow(
+      "cannot be used in a template literal hole",
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Object
 // ---------------------------------------------------------------------------
@@ -174,6 +477,282 @@ describe("t.object()", () => {
   });
 });
 
+describe("t.object().strict()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const exact: { verbose: boolean; port: number };
+      declare const typo: { verbose: boolean; prot: number };
+      declare const partial: { verbose: boolean };
+      declare const indexed: { verbose: boolean; [key: string]: boolean };
+      declare const either: { verbose: boolean } | { verbose: boolean; extra: 1 };
+      declare const acceptsOptions: (options: { verbose: boolean }) => void;
+    `,
+  });
+
+  const Options = t
+    .object({ verbose: t.boolean(), port: t.number().optional() })
+    .strict();
+
+  test("accepts types with only the listed properties", () => {
+    expect(isAssignableTo(ctx, getTypeOf("exact"), Options)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("partial"), Options)).toBe(true);
+  });
+
+  test("rejects unexpected properties", () => {
+    expect(explain(ctx, getTypeOf("typo"), Options)).toMatchObject({
+      ok: false,
+      path: ["prot"],
+      reason: "unexpected-property",
+    });
+    expect(explain(ctx, getTypeOf("either"), Options)).toMatchObject({
+      ok: false,
+      path: ["extra"],
+      reason: "unexpected-property",
+    });
+  });
+
+  test("rejects index signatures", () => {
+    expect(explain(ctx, getTypeOf("indexed"), Options)).toMatchObject({
+      ok: false,
+      path: ["[string]"],
+      reason: "unexpected-property",
+    });
+  });
+
+  test("does not affect parameter position", () => {
+    const Callback = t.function({ params: [Options] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsOptions"), Callback)).toBe(
+      true,
+    );
+  });
+
+  test("throws for schemas other than t.object()", () => {
+    expect(() => t.string().strict()).toThrow(
+      ".strict() can only be applied to t.object() schemas.",
+    );
+  });
+});
+
+describe("object transforms", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const rectangle: { x: number; y: number; width: number; height: number };
+      declare const rotated: { x: number; y: number; width: number; height: number; rotation: number };
+      declare const position: { x: number; y: number };
+      declare const patch: { width?: number };
+      declare const maybeWidth: { x: number; y: number; width: number | undefined; height: number };
+      declare const empty: {};
+      declare const anyRotated: { x: number; y: number; width: any; height: number; rotation: number };
+      declare const frame: { readonly bounds: typeof rotated };
+      declare const mutableFrame: { bounds: typeof rotated };
+    `,
+  });
+
+  const Rectangle = t.object({
+    x: t.number(),
+    y: t.number(),
+    width: t.number(),
+    height: t.number(),
+  });
+
+  test(".extend() adds and replaces properties", () => {
+    const Rotated = Rectangle.extend({ rotation: t.number() });
+    expect(isAssignableTo(ctx, getTypeOf("rotated"), Rotated)).toBe(true);
+    expect(explain(ctx, getTypeOf("rectangle"), Rotated)).toMatchObject({
+      ok: false,
+      path: ["rotation"],
+      reason: "missing-property",
+    });
+    expect(printSchema(Rectangle.extend({ x: t.string() }))).toBe(
+      "{ x: string; y: number; width: number; height: number }",
+    );
+  });
+
+  test(".merge() combines object schemas", () => {
+    const Position = t.object({ x: t.number(), y: t.number() });
+    const Size = t.object({ width: t.number(), height: t.number() }).strict();
+    const Bounds = Position.merge(Size);
+    expect(printSchema(Bounds)).toBe(
+      "{ x: number; y: number; width: number; height: number }",
+    );
+    expect(isAssignableTo(ctx, getTypeOf("rectangle"), Bounds)).toBe(true);
+    expect(explain(ctx, getTypeOf("rotated"), Bounds)).toMatchObject({
+      ok: false,
+      path: ["rotation"],
+      reason: "unexpected-property",
+    });
+    expect(printSchema(Position.merge(t.object({ x: t.string() })))).toBe(
+      "{ x: string; y: number }",
+    );
+  });
+
+  test(".pick() and .omit() select properties", () => {
+    const Position = Rectangle.pick(["x", "y"]);
+    expect(printSchema(Position)).toBe("{ x: number; y: number }");
+    expect(isAssignableTo(ctx, getTypeOf("position"), Position)).toBe(true);
+    expect(printSchema(Rectangle.omit(["x", "y"]))).toBe(
+      "{ width: number; height: number }",
+    );
+    expect(
+      isAssignableTo(ctx, getTypeOf("position"), Rectangle.omit(["width"])),
+    ).toBe(false);
+  });
+
+  test(".partial() and .required() change optionality", () => {
+    const Patch = Rectangle.partial();
+    expect(printSchema(Patch)).toBe(
+      "{ x?: number | undefined; y?: number | undefined; width?: number | undefined; height?: number | undefined }",
+    );
+    expect(isAssignableTo(ctx, getTypeOf("patch"), Patch)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("empty"), Patch)).toBe(true);
+    const SizePatch = Rectangle.partial(["width", "height"]);
+    expect(isAssignableTo(ctx, getTypeOf("position"), SizePatch)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("patch"), SizePatch)).toBe(false);
+
+    const Required = Patch.required();
+    expect(printSchema(Required)).toBe(printSchema(Rectangle));
+    expect(isAssignableTo(ctx, getTypeOf("rectangle"), Required)).toBe(true);
+    expect(explain(ctx, getTypeOf("maybeWidth"), Required)).toMatchObject({
+      ok: false,
+      path: ["width"],
+      reason: "not-assignable",
+    });
+    expect(
+      printSchema(
+        t
+          .object({ id: t.string().optional().readonly(), tag: t.string() })
+          .required(["id"]),
+      ),
+    ).toBe("{ readonly id: string; tag: string }");
+  });
+
+  test(".keyof() represents the keys", () => {
+    expect(printSchema(Rectangle.pick(["x", "y"]).keyof())).toBe('"x" | "y"');
+  });
+
+  test("keeps strictness", () => {
+    const Strict = Rectangle.strict();
+    expect(
+      explain(ctx, getTypeOf("rotated"), Strict.omit(["x"])),
+    ).toMatchObject({ ok: false, reason: "unexpected-property" });
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("rotated"),
+        Strict.extend({ rotation: t.number() }),
+      ),
+    ).toBe(true);
+  });
+
+  test("keeps modifiers and the anySource policy", () => {
+    const rotation = { rotation: t.number() };
+    expect(
+      explain(
+        ctx,
+        getTypeOf("anyRotated"),
+        Rectangle.anySource("reject").extend(rotation),
+      ),
+    ).toMatchObject({ ok: false, path: ["width"], reason: "any-source" });
+
+    const Frame = t.object({ bounds: Rectangle.readonly().extend(rotation) });
+    expect(isAssignableTo(ctx, getTypeOf("frame"), Frame)).toBe(true);
+    expect(explain(ctx, getTypeOf("mutableFrame"), Frame)).toMatchObject({
+      ok: false,
+      reason: "mutable-property",
+    });
+
+    const MaybeRotated = Rectangle.optional().extend(rotation);
+    expect(printSchema(MaybeRotated)).toBe(
+      "{ x: number; y: number; width: number; height: number; rotation: number } | undefined",
+    );
+    expect(
+      isAssignableTo(ctx, getTypeOf("empty"), t.object({ MaybeRotated })),
+    ).toBe(true);
+    const MaybeStrict = Rectangle.optional().strict();
+    expect(isAssignableTo(ctx, getTypeOf("rectangle"), MaybeStrict)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("rotated"), MaybeStrict)).toBe(false);
+  });
+
+  test("throws for unknown keys and other schemas", () => {
+    expect(() => Rectangle.pick(["z"])).toThrow(
+      '.pick(): unknown property "z" in `{ x: number; y: number; width: number; height: number }`.',
+    );
+    expect(() => Rectangle.omit(["z"])).toThrow('unknown property "z"');
+    expect(() => t.string().extend({})).toThrow(
+      ".extend() can only be applied to t.object() schemas.",
+    );
+    expect(() => Rectangle.merge(t.string())).toThrow(
+      ".merge() can only be applied to t.object() schemas.",
+    );
+  });
+});
+
+describe(".readonly() and .mutable()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const declared: { readonly id: string; name: string };
+      declare const mapped: Readonly<{ id: string; name: string }>;
+      class Entity {
+        constructor(readonly id: string) {}
+        get name(): string { return ""; }
+      }
+      declare const entity: Entity;
+      declare const mutable: { id: string; name: string };
+      declare const acceptsMutable: (entity: { id: string }) => void;
+      declare const acceptsReadonly: (entity: { readonly id: string }) => void;
+    `,
+  });
+
+  const Entity = t.object({ id: t.string().readonly() });
+  const State = t.object({ name: t.string().mutable() });
+
+  test(".readonly() requires readonly properties", () => {
+    expect(isAssignableTo(ctx, getTypeOf("declared"), Entity)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("mapped"), Entity)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("entity"), Entity)).toBe(true);
+    expect(explain(ctx, getTypeOf("mutable"), Entity)).toMatchObject({
+      ok: false,
+      path: ["id"],
+      reason: "mutable-property",
+    });
+  });
+
+  test(".mutable() rejects readonly properties", () => {
+    expect(isAssignableTo(ctx, getTypeOf("declared"), State)).toBe(true);
+    expect(explain(ctx, getTypeOf("mapped"), State)).toMatchObject({
+      ok: false,
+      path: ["name"],
+      reason: "readonly-property",
+    });
+    expect(isAssignableTo(ctx, getTypeOf("entity"), State)).toBe(false);
+  });
+
+  test("combines with .optional()", () => {
+    const Shape = t.object({ id: t.string().readonly().optional() });
+    expect(isAssignableTo(ctx, getTypeOf("declared"), Shape)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("mutable"), Shape)).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("mutable"),
+        t.object({ id: t.string().optional().readonly() }),
+      ),
+    ).toBe(false);
+  });
+
+  test("readonly schema properties cannot be passed to mutable ones", () => {
+    const Callback = t.function({ params: [Entity] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsReadonly"), Callback)).toBe(
+      true,
+    );
+    expect(explain(ctx, getTypeOf("acceptsMutable"), Callback)).toMatchObject({
+      ok: false,
+      path: ["(param 0)", "id"],
+      reason: "readonly-property",
+    });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Modifiers: .nullable(), .nullish()
 // ---------------------------------------------------------------------------
@@ -254,6 +833,121 @@ describe("t.union()", () => {
   });
 });
 
+describe("t.discriminatedUnion()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      type Circle = { kind: "circle"; radius: number };
+      type Square = { kind: "square"; side: number };
+      type Triangle = { kind: "triangle"; base: number; height: number };
+      declare const circle: Circle;
+      declare const shape: Circle | Square;
+      declare const withTriangle: Circle | Square | Triangle;
+      declare const badSquare: Circle | { kind: "square"; side: string };
+      declare const untagged: { radius: number };
+      declare const anyKind: { kind: string; radius: number };
+      declare const untyped: any;
+      declare const acceptsShape: (shape: Circle | Square) => void;
+      declare const acceptsCircle: (shape: Circle) => void;
+    `,
+  });
+
+  const Shape = t.discriminatedUnion("kind", {
+    circle: t.object({ radius: t.number() }),
+    square: t.object({ side: t.number() }),
+  });
+
+  test("dispatches on the discriminant", () => {
+    expect(isAssignableTo(ctx, getTypeOf("circle"), Shape)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("shape"), Shape)).toBe(true);
+    expect(explain(ctx, getTypeOf("badSquare"), Shape)).toMatchObject({
+      ok: false,
+      path: ["side"],
+      reason: "not-assignable",
+    });
+  });
+
+  test("reports unhandled variants and missing discriminants", () => {
+    const result = explain(ctx, getTypeOf("withTriangle"), Shape);
+    expect(result).toMatchObject({
+      ok: false,
+      path: ["kind"],
+      reason: "unhandled-variant",
+    });
+    expect(!result.ok && ctx.checker.typeToString(result.type)).toBe(
+      '"triangle"',
+    );
+    expect(explain(ctx, getTypeOf("untagged"), Shape)).toMatchObject({
+      ok: false,
+      path: ["kind"],
+      reason: "missing-property",
+    });
+  });
+
+  test("falls back to every variant for other discriminants", () => {
+    expect(explain(ctx, getTypeOf("anyKind"), Shape)).toMatchObject({
+      ok: false,
+      path: [],
+      reason: "no-matching-member",
+    });
+    expect(isAssignableTo(ctx, getTypeOf("untyped"), Shape)).toBe(
+      isAssignableTo(
+        ctx,
+        getTypeOf("untyped"),
+        t.union(
+          t.object({ kind: t.literal("circle"), radius: t.number() }),
+          t.object({ kind: t.literal("square"), side: t.number() }),
+        ),
+      ),
+    );
+  });
+
+  test("returns the result of each variant", () => {
+    const results = explainVariants(ctx, getTypeOf("withTriangle"), Shape);
+    expect(results.map(({ variant, result }) => [variant, result.ok])).toEqual([
+      ["circle", true],
+      ["square", true],
+      ["triangle", false],
+    ]);
+    expect(results[2]!.result).toMatchObject({ reason: "unhandled-variant" });
+    expect(explainVariants(ctx, getTypeOf("untagged"), Shape)).toMatchObject([
+      { variant: undefined, result: { ok: false, reason: "missing-property" } },
+    ]);
+    expect(() =>
+      explainVariants(ctx, getTypeOf("circle"), t.object({})),
+    ).toThrow("explainVariants() expects a t.discriminatedUnion() schema.");
+  });
+
+  test("checks in parameter position as a union", () => {
+    const Callback = t.function({ params: [Shape] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsShape"), Callback)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("acceptsCircle"), Callback)).toBe(
+      false,
+    );
+  });
+
+  test("accepts variants that are not object schemas", () => {
+    const Tagged = t.discriminatedUnion("kind", {
+      circle: t.intersection(
+        t.object({ radius: t.number() }),
+        t.custom(() => true, "Extra", { acceptsFrom: () => true }),
+      ),
+    });
+    expect(isAssignableTo(ctx, getTypeOf("circle"), Tagged)).toBe(true);
+    expect(printSchema(Tagged)).toBe(
+      '{ kind: "circle" } & { radius: number } & Extra',
+    );
+  });
+
+  test("prints as a union of the variants", () => {
+    expect(printSchema(Shape)).toBe(
+      '{ kind: "circle"; radius: number } | { kind: "square"; side: number }',
+    );
+    expect(printSchema(t.array(Shape))).toBe(
+      '({ kind: "circle"; radius: number } | { kind: "square"; side: number })[]',
+    );
+  });
+});
+
 describe("t.intersection()", () => {
   const { getTypeOf, ctx } = createTestContext({
     "test.ts": `
@@ -307,86 +1001,438 @@ describe("t.array()", () => {
   });
 });
 
-// ---------------------------------------------------------------------------
-// Module: simulated node_modules package
-// ---------------------------------------------------------------------------
-
-describe("t.fromModule() with simulated node_modules", () => {
+describe("t.tuple()", () => {
   const { getTypeOf, ctx } = createTestContext({
-    "node_modules/fake-lib/index.d.ts": `
-      export declare class Gadget {
-        id: number;
-        name: string;
-      }
-      export interface Config {
-        verbose: boolean;
-      }
-    `,
     "test.ts": `
-      import { Gadget, Config } from 'fake-lib';
-      declare const gadget: Gadget;
-      declare const config: Config;
-      declare const notGadget: string;
+      const pair: [number, number] = [1, 2];
+      const labeled: [x: number, y: number] = [1, 2];
+      const triple: [number, number, number] = [1, 2, 3];
+      const single: [number] = [1];
+      const withOptional: [number, number?] = [1];
+      const mixed: [number, string] = [1, "a"];
+      const readonlyPair: readonly [number, number] = [1, 2];
+      const command: [string, ...number[]] = ["a"];
+      const framed: [string, ...string[], string] = ["a", "b"];
+      const nums: number[] = [];
+      declare function useState(): [value: string, set: (value: string) => void];
+      const state = useState();
+      declare const takesPair: (p: [number, number]) => void;
+      declare const takesNumbers: (p: readonly number[]) => void;
+      declare const takesTriple: (p: [number, number, number]) => void;
+      declare const takesMutableArray: (p: number[]) => void;
     `,
   });
 
-  test("resolves a class from a simulated package", () => {
-    const GadgetSchema = t.fromModule("fake-lib", "Gadget");
-    expect(isAssignableTo(ctx, getTypeOf("gadget"), GadgetSchema)).toBe(true);
+  const Point = t.tuple([t.number(), t.number()]);
+
+  test("matches tuples with the same elements", () => {
+    expect(isAssignableTo(ctx, getTypeOf("pair"), Point)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("labeled"), Point)).toBe(true);
   });
 
-  test("resolves an interface from a simulated package", () => {
-    const ConfigSchema = t.fromModule("fake-lib", "Config");
-    expect(isAssignableTo(ctx, getTypeOf("config"), ConfigSchema)).toBe(true);
+  test("rejects tuples with the wrong length", () => {
+    expect(explain(ctx, getTypeOf("triple"), Point)).toMatchObject({
+      ok: false,
+      reason: "tuple-length",
+    });
+    expect(explain(ctx, getTypeOf("single"), Point)).toMatchObject({
+      ok: false,
+      reason: "tuple-length",
+    });
   });
 
-  test("rejects a non-matching type against a simulated package export", () => {
-    const GadgetSchema = t.fromModule("fake-lib", "Gadget");
-    expect(isAssignableTo(ctx, getTypeOf("notGadget"), GadgetSchema)).toBe(
-      false,
+  test("rejects plain arrays", () => {
+    expect(explain(ctx, getTypeOf("nums"), Point)).toMatchObject({
+      ok: false,
+      reason: "not-tuple",
+    });
+  });
+
+  test("reports mismatched element positions", () => {
+    expect(explain(ctx, getTypeOf("mixed"), Point)).toMatchObject({
+      ok: false,
+      path: [1],
+      reason: "not-assignable",
+    });
+  });
+
+  test("handles optional elements", () => {
+    const MaybePair = t.tuple([t.number(), t.number().optional()]);
+    expect(isAssignableTo(ctx, getTypeOf("single"), MaybePair)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("pair"), MaybePair)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("withOptional"), MaybePair)).toBe(
+      true,
     );
+    expect(isAssignableTo(ctx, getTypeOf("withOptional"), Point)).toBe(false);
   });
 
-  test("throws for a non-existent export from a simulated package", () => {
-    const Nonexistent = t.fromModule("fake-lib", "DoesNotExist");
-    expect(() => isAssignableTo(ctx, getTypeOf("gadget"), Nonexistent)).toThrow(
-      'could not resolve export "DoesNotExist"',
+  test("handles rest elements", () => {
+    const Command = t.tuple([t.string()], { rest: t.number() });
+    expect(isAssignableTo(ctx, getTypeOf("command"), Command)).toBe(true);
+    expect(
+      isAssignableTo(ctx, getTypeOf("command"), t.tuple([t.string()])),
+    ).toBe(false);
+
+    // Two elements are required, so the source may be shorter than three.
+    expect(
+      explain(
+        ctx,
+        getTypeOf("framed"),
+        t.tuple([t.string(), t.string(), t.string()], { rest: t.string() }),
+      ),
+    ).toMatchObject({ ok: false, reason: "tuple-length" });
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("framed"),
+        t.tuple([t.string(), t.string()], { rest: t.string() }),
+      ),
+    ).toBe(true);
+
+    const Numbers = t.tuple([], { rest: t.number() });
+    expect(isAssignableTo(ctx, getTypeOf("triple"), Numbers)).toBe(true);
+    expect(explain(ctx, getTypeOf("mixed"), Numbers)).toMatchObject({
+      ok: false,
+      path: [1],
+    });
+  });
+
+  test("distinguishes readonly tuples", () => {
+    expect(explain(ctx, getTypeOf("readonlyPair"), Point)).toMatchObject({
+      ok: false,
+      reason: "readonly-tuple",
+    });
+    const ReadonlyPoint = t.tuple([t.number(), t.number()], { readonly: true });
+    expect(isAssignableTo(ctx, getTypeOf("readonlyPair"), ReadonlyPoint)).toBe(
+      true,
     );
+    expect(isAssignableTo(ctx, getTypeOf("pair"), ReadonlyPoint)).toBe(true);
   });
-});
 
-// ---------------------------------------------------------------------------
-// Module: ambient module declarations
-// ---------------------------------------------------------------------------
+  test("describes useState-style return shapes", () => {
+    const State = t.tuple([
+      t.string(),
+      t.function({ params: [t.string()], returns: t.void() }),
+    ]);
+    expect(isAssignableTo(ctx, getTypeOf("state"), State)).toBe(true);
+  });
 
-describe("t.fromModule() with ambient modules", () => {
+  test("checks tuples in parameter position", () => {
+    const TakesPoint = t.function({ params: [Point] });
+    expect(isAssignableTo(ctx, getTypeOf("takesPair"), TakesPoint)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("takesNumbers"), TakesPoint)).toBe(
+      true,
+    );
+    expect(explain(ctx, getTypeOf("takesTriple"), TakesPoint)).toMatchObject({
+      ok: false,
+      path: ["(param 0)"],
+      reason: "tuple-length",
+    });
+
+    const TakesReadonlyPoint = t.function({
+      params: [t.tuple([t.number(), t.number()], { readonly: true })],
+    });
+    expect(
+      explain(ctx, getTypeOf("takesMutableArray"), TakesReadonlyPoint),
+    ).toMatchObject({ ok: false, reason: "readonly-tuple" });
+  });
+});
+
+describe("t.function()", () => {
   const { getTypeOf, ctx } = createTestContext({
-    "ambient.d.ts": `
-      declare module 'my-lib' {
-        export class Foo {
-          bar: string;
-        }
-        export interface Baz {
-          qux: number;
-        }
-      }
-    `,
     "test.ts": `
-      import { Foo, Baz } from 'my-lib';
-      declare const foo: Foo;
-      declare const baz: Baz;
-      declare const notFoo: string;
+      interface Base { id: number }
+      interface Derived extends Base { name: string }
+      declare const handler: (value: Base, label: string) => void;
+      declare const narrowHandler: (value: Derived) => void;
+      declare const noArgs: () => number;
+      declare const needsThree: (a: string, b: string, c: string) => void;
+      declare const withOptional: (a: string, b?: number) => void;
+      declare const withRest: (a: string, ...rest: number[]) => void;
+      declare const returnsString: () => string;
+      declare const overloaded: { (a: string): string; (a: number): number };
+      declare const notFn: number;
     `,
   });
 
-  test("resolves a class from an ambient module declaration", () => {
-    const FooSchema = t.fromModule("my-lib", "Foo");
-    expect(isAssignableTo(ctx, getTypeOf("foo"), FooSchema)).toBe(true);
+  const Id = t.object({ id: t.number() });
+
+  test("matches functions with compatible parameters", () => {
+    const Handler = t.function({ params: [Id, t.string()], returns: t.void() });
+    expect(isAssignableTo(ctx, getTypeOf("handler"), Handler)).toBe(true);
   });
 
-  test("rejects a non-matching type against an ambient module export", () => {
-    const FooSchema = t.fromModule("my-lib", "Foo");
-    expect(isAssignableTo(ctx, getTypeOf("notFoo"), FooSchema)).toBe(false);
+  test("accepts functions with fewer parameters", () => {
+    const Handler = t.function({ params: [Id, t.string()] });
+    expect(isAssignableTo(ctx, getTypeOf("noArgs"), Handler)).toBe(true);
+  });
+
+  test("rejects functions that require more parameters", () => {
+    const Handler = t.function({ params: [t.string()] });
+    expect(explain(ctx, getTypeOf("needsThree"), Handler)).toMatchObject({
+      ok: false,
+      reason: "too-many-parameters",
+    });
+  });
+
+  test("rejects non-callable types", () => {
+    expect(explain(ctx, getTypeOf("notFn"), t.function())).toMatchObject({
+      ok: false,
+      reason: "not-callable",
+    });
+  });
+
+  test("compares parameters contravariantly", () => {
+    const Handler = t.function({ params: [Id] });
+    expect(explain(ctx, getTypeOf("narrowHandler"), Handler)).toMatchObject({
+      ok: false,
+      path: ["(param 0)", "name"],
+      reason: "missing-property",
+    });
+  });
+
+  test("t.method() compares parameters bivariantly", () => {
+    const Handler = t.method({ params: [Id] });
+    expect(isAssignableTo(ctx, getTypeOf("narrowHandler"), Handler)).toBe(true);
+    const Unrelated = t.method({ params: [t.string()] });
+    expect(isAssignableTo(ctx, getTypeOf("narrowHandler"), Unrelated)).toBe(
+      false,
+    );
+  });
+
+  test("handles optional parameters", () => {
+    const OneArg = t.function({ params: [t.string()] });
+    expect(isAssignableTo(ctx, getTypeOf("withOptional"), OneArg)).toBe(true);
+
+    const WrongSecond = t.function({ params: [t.string(), t.string()] });
+    expect(isAssignableTo(ctx, getTypeOf("withOptional"), WrongSecond)).toBe(
+      false,
+    );
+
+    const OptionalFirst = t.function({ params: [t.string().optional()] });
+    expect(isAssignableTo(ctx, getTypeOf("handler"), OptionalFirst)).toBe(
+      false,
+    );
+  });
+
+  test("handles rest parameters", () => {
+    const NumberRest = t.function({ params: [t.string()], rest: t.number() });
+    expect(isAssignableTo(ctx, getTypeOf("withRest"), NumberRest)).toBe(true);
+
+    const StringRest = t.function({ params: [t.string()], rest: t.string() });
+    expect(explain(ctx, getTypeOf("withRest"), StringRest)).toMatchObject({
+      ok: false,
+      path: ["(rest)"],
+    });
+  });
+
+  test("compares return types covariantly", () => {
+    const ReturnsString = t.function({ returns: t.string() });
+    expect(isAssignableTo(ctx, getTypeOf("returnsString"), ReturnsString)).toBe(
+      true,
+    );
+
+    const ReturnsNumber = t.function({ returns: t.number() });
+    expect(
+      explain(ctx, getTypeOf("returnsString"), ReturnsNumber),
+    ).toMatchObject({
+      ok: false,
+      path: ["(return)"],
+      reason: "not-assignable",
+    });
+  });
+
+  test("matches any overload of the type", () => {
+    const NumberFn = t.function({ params: [t.number()], returns: t.number() });
+    expect(isAssignableTo(ctx, getTypeOf("overloaded"), NumberFn)).toBe(true);
+
+    const BooleanFn = t.function({ params: [t.boolean()] });
+    expect(explain(ctx, getTypeOf("overloaded"), BooleanFn)).toMatchObject({
+      ok: false,
+      reason: "no-matching-signature",
+    });
+  });
+
+  test("t.overloads() requires every signature", () => {
+    const StringFn = t.function({ params: [t.string()], returns: t.string() });
+    const NumberFn = t.function({ params: [t.number()], returns: t.number() });
+    const BooleanFn = t.function({ params: [t.boolean()] });
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("overloaded"),
+        t.overloads(StringFn, NumberFn),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("overloaded"),
+        t.overloads(StringFn, BooleanFn),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("t.newable()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare class Widget {
+        constructor(opts: { width: number });
+        width: number;
+      }
+      declare const WidgetCtor: typeof Widget;
+    `,
+  });
+
+  test("matches construct signatures", () => {
+    const WidgetClass = t.newable({
+      params: [t.object({ width: t.number() })],
+      returns: t.object({ width: t.number() }),
+    });
+    expect(isAssignableTo(ctx, getTypeOf("WidgetCtor"), WidgetClass)).toBe(
+      true,
+    );
+  });
+
+  test("rejects mismatched constructor parameters", () => {
+    const WidgetClass = t.newable({ params: [t.string()] });
+    expect(isAssignableTo(ctx, getTypeOf("WidgetCtor"), WidgetClass)).toBe(
+      false,
+    );
+  });
+
+  test("does not treat classes as callable", () => {
+    expect(explain(ctx, getTypeOf("WidgetCtor"), t.function())).toMatchObject({
+      ok: false,
+      reason: "not-callable",
+    });
+  });
+});
+
+describe("signature schemas inside t.object()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      interface Item { id: number; name: string }
+      declare const emitter: {
+        on(event: string, listener: (item: Item) => void): void;
+      };
+    `,
+  });
+
+  test("describes methods and callback parameters", () => {
+    const Emitter = t.object({
+      on: t.method({
+        params: [
+          t.string(),
+          t.function({
+            params: [t.object({ id: t.number(), name: t.string() })],
+          }),
+        ],
+      }),
+    });
+    expect(isAssignableTo(ctx, getTypeOf("emitter"), Emitter)).toBe(true);
+  });
+
+  test("rejects callbacks that expect more than the type provides", () => {
+    const Emitter = t.object({
+      on: t.method({
+        params: [
+          t.string(),
+          t.function({
+            params: [t.object({ id: t.number(), extra: t.string() })],
+          }),
+        ],
+      }),
+    });
+    expect(explain(ctx, getTypeOf("emitter"), Emitter)).toMatchObject({
+      ok: false,
+      path: ["on", "(param 1)", "(param 0)", "extra"],
+      reason: "missing-property",
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Module: simulated node_modules package
+// ---------------------------------------------------------------------------
+
+describe("t.fromModule() with simulated node_modules", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "node_modules/fake-lib/index.d.ts": `
+      export declare class Gadget {
+        id: number;
+        name: string;
+      }
+      export interface Config {
+        verbose: boolean;
+      }
+    `,
+    "test.ts": `
+      import { Gadget, Config } from 'fake-lib';
+      declare const gadget: Gadget;
+      declare const config: Config;
+      declare const notGadget: string;
+    `,
+  });
+
+  test("resolves a class from a simulated package", () => {
+    const GadgetSchema = t.fromModule("fake-lib", "Gadget");
+    expect(isAssignableTo(ctx, getTypeOf("gadget"), GadgetSchema)).toBe(true);
+  });
+
+  test("resolves an interface from a simulated package", () => {
+    const ConfigSchema = t.fromModule("fake-lib", "Config");
+    expect(isAssignableTo(ctx, getTypeOf("config"), ConfigSchema)).toBe(true);
+  });
+
+  test("rejects a non-matching type against a simulated package export", () => {
+    const GadgetSchema = t.fromModule("fake-lib", "Gadget");
+    expect(isAssignableTo(ctx, getTypeOf("notGadget"), GadgetSchema)).toBe(
+      false,
+    );
+  });
+
+  test("throws for a non-existent export from a simulated package", () => {
+    const Nonexistent = t.fromModule("fake-lib", "DoesNotExist");
+    expect(() => isAssignableTo(ctx, getTypeOf("gadget"), Nonexistent)).toThrow(
+      'could not resolve export "DoesNotExist"',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Module: ambient module declarations
+// ---------------------------------------------------------------------------
+
+describe("t.fromModule() with ambient modules", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "ambient.d.ts": `
+      declare module 'my-lib' {
+        export class Foo {
+          bar: string;
+        }
+        export interface Baz {
+          qux: number;
+        }
+      }
+    `,
+    "test.ts": `
+      import { Foo, Baz } from 'my-lib';
+      declare const foo: Foo;
+      declare const baz: Baz;
+      declare const notFoo: string;
+    `,
+  });
+
+  test("resolves a class from an ambient module declaration", () => {
+    const FooSchema = t.fromModule("my-lib", "Foo");
+    expect(isAssignableTo(ctx, getTypeOf("foo"), FooSchema)).toBe(true);
+  });
+
+  test("rejects a non-matching type against an ambient module export", () => {
+    const FooSchema = t.fromModule("my-lib", "Foo");
+    expect(isAssignableTo(ctx, getTypeOf("notFoo"), FooSchema)).toBe(false);
   });
 
   test("resolves an interface from an ambient module declaration", () => {
@@ -431,48 +1477,2479 @@ describe("t.fromModule() with file modules", () => {
   });
 });
 
-// ---------------------------------------------------------------------------
-// Module: error cases
-// ---------------------------------------------------------------------------
+describe("t.fromModule() with namespaces, default and export = exports", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "node_modules/cjs-lib/index.d.ts": `
+      declare namespace cjs {
+        interface Options { verbose: boolean }
+        namespace server { class Project { name: string } }
+      }
+      declare class cjs { run(): void }
+      export = cjs;
+    `,
+    "shapes.ts": `
+      export default class Circle { radius = 1; }
+      export namespace geometry {
+        export interface Point { x: number; y: number }
+        export enum Axis { X, Y }
+      }
+      export const origin = { x: 0, y: 0 };
+      export function area(circle: Circle): number { return 0; }
+    `,
+    "index.ts": `
+      export { default as Shape, geometry as geo } from "./shapes";
+    `,
+    "test.ts": `
+      import cjs = require("cjs-lib");
+      import Circle, { geometry } from "./shapes";
+      declare const runner: cjs;
+      declare const options: cjs.Options;
+      declare const project: cjs.server.Project;
+      declare const circle: Circle;
+      declare const point: geometry.Point;
+      declare const axisX: geometry.Axis.X;
+      declare const origin: { x: number; y: number };
+      declare const areaFn: (circle: Circle) => number;
+      declare const val: string;
+    `,
+  });
 
-describe("t.fromModule() error handling", () => {
+  test("resolves dotted paths into namespaces", () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("point"),
+        t.fromModule("./shapes", "geometry.Point"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("axisX"),
+        t.fromModule("./shapes", "geometry.Axis.X"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("project"),
+        t.fromModule("cjs-lib", "server.Project"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("val"),
+        t.fromModule("./shapes", "geometry.Point"),
+      ),
+    ).toBe(false);
+  });
+
+  test('resolves "default" to default exports and export =', () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("circle"),
+        t.fromModule("./shapes", "default"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("runner"),
+        t.fromModule("cjs-lib", "default"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("options"),
+        t.fromModule("cjs-lib", "Options"),
+      ),
+    ).toBe(true);
+  });
+
+  test("follows re-export aliases", () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("circle"),
+        t.fromModule("./index", "Shape"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("point"),
+        t.fromModule("./index", "geo.Point"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("circle"),
+        t.instanceOf(t.fromModule("./index", "Shape")),
+      ),
+    ).toBe(true);
+  });
+
+  test("throws for values and missing paths", () => {
+    expect(() =>
+      isAssignableTo(
+        ctx,
+        getTypeOf("origin"),
+        t.fromModule("./shapes", "origin"),
+      ),
+    ).toThrow(
+      't.fromModule(): export "origin" of module "./shapes" is not a type; use t.typeofExport() for values.',
+    );
+    expect(() =>
+      isAssignableTo(
+        ctx,
+        getTypeOf("val"),
+        t.fromModule("./shapes", "geometry.Missing"),
+      ),
+    ).toThrow(
+      'could not resolve export "geometry.Missing" from module "./shapes"',
+    );
+  });
+});
+
+describe("t.typeofExport()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "config.ts": `
+      export const defaultConfig = { port: 8080, host: "localhost" };
+      export function connect(port: number): void {}
+      export interface Options { port: number }
+      export default { debug: false };
+    `,
+    "test.ts": `
+      declare const config: { port: number; host: string };
+      declare const partial: { port: number };
+      declare const connector: (port: number) => void;
+      declare const debug: { debug: boolean };
+    `,
+  });
+
+  test("checks against the type of a value export", () => {
+    const Config = t.typeofExport("./config", "defaultConfig");
+    expect(isAssignableTo(ctx, getTypeOf("config"), Config)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("partial"), Config)).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("connector"),
+        t.typeofExport("./config", "connect"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("debug"),
+        t.typeofExport("./config", "default"),
+      ),
+    ).toBe(true);
+  });
+
+  test("checks in reverse and compiles", () => {
+    const Config = t.typeofExport("./config", "defaultConfig");
+    expect(isAssignableFrom(ctx, getTypeOf("partial"), Config)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("partial"), t.compiled(Config))).toBe(
+      false,
+    );
+  });
+
+  test("throws for type-only exports", () => {
+    expect(() =>
+      isAssignableTo(
+        ctx,
+        getTypeOf("partial"),
+        t.typeofExport("./config", "Options"),
+      ),
+    ).toThrow(
+      't.typeofExport(): export "Options" of module "./config" is not a value.',
+    );
+  });
+
+  test("prints as a typeof import type", () => {
+    expect(printSchema(t.typeofExport("./config", "defaultConfig"))).toBe(
+      'typeof import("./config").defaultConfig',
+    );
+    expect(printSchema(t.array(t.typeofExport("./config", "connect")))).toBe(
+      'typeof import("./config").connect[]',
+    );
+  });
+});
+
+describe("t.global()", () => {
   const { getTypeOf, ctx } = createTestContext({
+    "globals.d.ts": `
+      declare namespace App {
+        interface Timer { id: number }
+      }
+      declare class Registry<T> { items: T[] }
+    `,
     "test.ts": `
+      declare const element: HTMLElement;
+      declare const div: HTMLDivElement;
+      declare const timer: App.Timer;
+      declare const registry: Registry<string>;
       declare const val: string;
     `,
   });
 
-  test("throws when program is not provided", () => {
-    const Schema = t.fromModule("fake-lib", "Foo");
-    const ctxNoProgram: SchemaContext = { checker: ctx.checker };
+  test("resolves lib and ambient globals without a program", () => {
+    const { checker } = ctx;
+    expect(
+      isAssignableTo(
+        { checker },
+        getTypeOf("element"),
+        t.global("HTMLElement"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo({ checker }, getTypeOf("val"), t.global("HTMLElement")),
+    ).toBe(false);
+    expect(
+      isAssignableTo({ checker }, getTypeOf("timer"), t.global("App.Timer")),
+    ).toBe(true);
+  });
+
+  test("composes with .of() and t.instanceOf()", () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("registry"),
+        t.global("Registry").of(t.string()),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("registry"),
+        t.global("Registry").of(t.number()),
+      ),
+    ).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("div"),
+        t.instanceOf(t.global("HTMLElement")),
+      ),
+    ).toBe(true);
+  });
+
+  test("throws for unknown globals", () => {
     expect(() =>
-      isAssignableTo(ctxNoProgram, getTypeOf("val"), Schema),
-    ).toThrow("t.fromModule() requires `program`");
+      isAssignableTo(ctx, getTypeOf("val"), t.global("NoSuchGlobal")),
+    ).toThrow('t.global(): could not resolve global "NoSuchGlobal".');
+    expect(() =>
+      isAssignableTo(ctx, getTypeOf("val"), t.global("App.Missing")),
+    ).toThrow('t.global(): could not resolve global "App.Missing".');
   });
 
-  test("throws for non-existent module", () => {
-    const Nonexistent = t.fromModule("no-such-module", "Foo");
-    expect(() => isAssignableTo(ctx, getTypeOf("val"), Nonexistent)).toThrow(
-      'could not resolve export "Foo" from module "no-such-module"',
+  test("prints the global name", () => {
+    expect(printSchema(t.global("App.Timer"))).toBe("App.Timer");
+    expect(printSchema(t.global("Registry").of(t.string()))).toBe(
+      "Registry<string>",
+    );
+  });
+});
+
+describe("t.fromModule().of()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "result.ts": `
+      export type Result<T, E> = { ok: true; value: T } | { ok: false; error: E };
+      export interface Box<T> { value: T }
+      export class Emitter<Events> { on<K extends keyof Events>(name: K): void {} }
+      export interface Plain { value: number }
+    `,
+    "reexport.ts": `export { Result as Outcome } from './result';`,
+    "test.ts": `
+      import { Result, Box, Emitter } from './result';
+      declare const stringResult: Result<string, Error>;
+      declare const numberResult: Result<number, Error>;
+      declare const maybeResult: Result<string, Error> | undefined;
+      declare const stringBox: Box<string>;
+      declare const boxes: Box<string> | Box<"a">;
+      declare const lookalike: { value: string };
+      interface NamedBox extends Box<string> { name: string }
+      declare const namedBox: NamedBox;
+      declare const emitter: Emitter<{ ready: [] }>;
+      declare const acceptsBox: (box: Box<string>) => void;
+      declare const acceptsAnyBox: (box: Box<unknown>) => void;
+    `,
+  });
+
+  const Result = t.fromModule("./result", "Result");
+  const Box = t.fromModule("./result", "Box");
+
+  test("checks the type arguments of type alias instantiations", () => {
+    const StringResult = Result.of(t.string(), t.any());
+    expect(isAssignableTo(ctx, getTypeOf("stringResult"), StringResult)).toBe(
+      true,
+    );
+    expect(explain(ctx, getTypeOf("numberResult"), StringResult)).toMatchObject(
+      { ok: false, path: ["<T>"], reason: "not-assignable" },
+    );
+    expect(isAssignableTo(ctx, getTypeOf("maybeResult"), StringResult)).toBe(
+      false,
+    );
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("stringResult"),
+        t.fromModule("./reexport", "Outcome").of(t.string(), t.any()),
+      ),
+    ).toBe(true);
+  });
+
+  test("checks the type arguments of interface instantiations", () => {
+    const StringBox = Box.of(t.string());
+    expect(isAssignableTo(ctx, getTypeOf("stringBox"), StringBox)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("boxes"), StringBox)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("namedBox"), StringBox)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("lookalike"), StringBox)).toBe(false);
+    expect(
+      isAssignableTo(ctx, getTypeOf("stringBox"), Box.of(t.number())),
+    ).toBe(false);
+  });
+
+  test("checks the type arguments of class instantiations", () => {
+    const Emitter = t.fromModule("./result", "Emitter");
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("emitter"),
+        Emitter.of(t.object({ ready: t.tuple([]) })),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("emitter"),
+        Emitter.of(t.object({ close: t.tuple([]) })),
+      ),
+    ).toBe(false);
+  });
+
+  test(".ofAny() accepts any instantiation", () => {
+    expect(isAssignableTo(ctx, getTypeOf("numberResult"), Result.ofAny())).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("boxes"), Box.ofAny())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("lookalike"), Box.ofAny())).toBe(
+      false,
+    );
+  });
+
+  test("checks instantiations in parameter position", () => {
+    const Callback = t.function({ params: [Box.of(t.literal("a"))] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsBox"), Callback)).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("acceptsBox"),
+        t.function({ params: [Box.ofAny()] }),
+      ),
+    ).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("acceptsAnyBox"),
+        t.function({ params: [Box.ofAny()] }),
+      ),
+    ).toBe(true);
+  });
+
+  test("throws for non-generic exports and wrong arities", () => {
+    expect(() =>
+      isAssignableTo(
+        ctx,
+        getTypeOf("stringBox"),
+        t.fromModule("./result", "Plain").ofAny(),
+      ),
+    ).toThrow('export "Plain" of module "./result" is not generic');
+    expect(() =>
+      isAssignableTo(ctx, getTypeOf("stringResult"), Result.of(t.string())),
+    ).toThrow("expects 2 type arguments, got 1");
+    expect(() => t.string().of(t.number())).toThrow(
+      "Type arguments can only be applied to t.fromModule() and t.global() schemas.",
     );
   });
 });
 
 // ---------------------------------------------------------------------------
-// Custom
+// Module: enums
 // ---------------------------------------------------------------------------
 
-describe("t.custom()", () => {
+describe("t.enumFromModule()", () => {
   const { getTypeOf, ctx } = createTestContext({
+    "http.ts": `
+      export enum Method { Get = "GET", Head = "HEAD", Post = "POST" }
+      export const enum Status { Ok = 200, NotFound = 404 }
+      export interface NotAnEnum { x: number }
+    `,
     "test.ts": `
-      const arr: number[] = [];
-      const num: number = 0;
+      import { Method, Status } from './http';
+      declare const method: Method;
+      declare const get: Method.Get;
+      declare const getOrPost: Method.Get | Method.Post;
+      declare const ok: Status.Ok;
+      declare const str: string;
     `,
   });
 
-  test("delegates to the provided predicate", () => {
-    const HasLength = t.custom((type) => type.getProperty("length") != null);
-    expect(isAssignableTo(ctx, getTypeOf("arr"), HasLength)).toBe(true);
-    expect(isAssignableTo(ctx, getTypeOf("num"), HasLength)).toBe(false);
+  test("matches enum types and members", () => {
+    const MethodSchema = t.enumFromModule("./http", "Method");
+    expect(isAssignableTo(ctx, getTypeOf("method"), MethodSchema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("get"), MethodSchema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("str"), MethodSchema)).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("ok"),
+        t.enumFromModule("./http", "Status"),
+      ),
+    ).toBe(true);
+  });
+
+  test("restricts to the given members", () => {
+    const SafeMethod = t.enumFromModule("./http", "Method", ["Get", "Head"]);
+    expect(isAssignableTo(ctx, getTypeOf("get"), SafeMethod)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("method"), SafeMethod)).toBe(false);
+    expect(explain(ctx, getTypeOf("getOrPost"), SafeMethod)).toMatchObject({
+      ok: false,
+      reason: "not-assignable",
+    });
+  });
+
+  test("throws for exports that are not enums", () => {
+    const Schema = t.enumFromModule("./http", "NotAnEnum");
+    expect(() => isAssignableTo(ctx, getTypeOf("str"), Schema)).toThrow(
+      'export "NotAnEnum" of module "./http" is not an enum',
+    );
+  });
+
+  test("throws for unknown members", () => {
+    const Schema = t.enumFromModule("./http", "Method", ["Put"]);
+    expect(() => isAssignableTo(ctx, getTypeOf("str"), Schema)).toThrow(
+      'has no member "Put"',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Recursive schemas: t.lazy()
+// ---------------------------------------------------------------------------
+
+describe("t.lazy()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      interface Tree { value: number; children: Tree[] }
+      declare const tree: Tree;
+      interface StringTree { value: string; children: StringTree[] }
+      declare const stringTree: StringTree;
+      type List = { head: number; tail: List | null };
+      declare const list: List;
+      type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+      declare const json: Json;
+      declare const config: { name: string; tags: string[]; nested: { on: boolean } };
+      declare const notJson: { callback: () => void };
+      declare const acceptsTree: (tree: Tree) => void;
+    `,
+  });
+
+  const TreeNode: TypeSchema = t.object({
+    value: t.number(),
+    children: t.array(t.lazy(() => TreeNode)),
+  });
+
+  const Json: TypeSchema = t.union(
+    t.string(),
+    t.number(),
+    t.boolean(),
+    t.null(),
+    t.array(t.lazy(() => Json)),
+    t.record(
+      t.string(),
+      t.lazy(() => Json),
+    ),
+  );
+
+  test("matches recursive types", () => {
+    const List: TypeSchema = t.object({
+      head: t.number(),
+      tail: t.lazy(() => List).nullable(),
+    });
+    expect(isAssignableTo(ctx, getTypeOf("tree"), TreeNode)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("list"), List)).toBe(true);
+  });
+
+  test("reports mismatches in recursive types", () => {
+    expect(explain(ctx, getTypeOf("stringTree"), TreeNode)).toMatchObject({
+      ok: false,
+      path: ["value"],
+      reason: "not-assignable",
+    });
+  });
+
+  test("matches JSON values", () => {
+    expect(isAssignableTo(ctx, getTypeOf("json"), Json)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("config"), Json)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("notJson"), Json)).toBe(false);
+  });
+
+  test("checks recursive schemas in parameter position", () => {
+    const Callback = t.function({ params: [TreeNode] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsTree"), Callback)).toBe(true);
+  });
+
+  test("prints recursive occurrences", () => {
+    expect(
+      printSchema(
+        t.object({ children: t.array(t.lazy(() => TreeNode, "TreeNode")) }),
+      ),
+    ).toBe("{ children: TreeNode[] }");
+    expect(printSchema(t.lazy(() => t.number()))).toBe("number");
+    expect(printSchema(t.lazy(() => TreeNode))).toBe(
+      "{ value: number; children: unknown /* recursive */[] }",
+    );
+  });
+
+  test("prints unnamed recursive occurrences as valid type syntax", () => {
+    const printed = printSchema(t.lazy(() => Json));
+    expect(printed).toBe(
+      "(string | number | boolean | null | unknown /* recursive */[] | Record<string, unknown /* recursive */>)",
+    );
+    expect(printSchema(t.parse(printed))).toBe(
+      "string | number | boolean | null | unknown[] | Record<string, unknown>",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Type syntax: t.parse()
+// ---------------------------------------------------------------------------
+
+describe("t.parse()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "lib.ts": `
+      export declare class Widget { id: number }
+      export interface Box<T> { value: T }
+      export namespace shapes { export interface Circle { radius: number } }
+    `,
+    "globals.d.ts": `
+      interface Local { name: string }
+      interface Pair<T> { first: T; second: T }
+    `,
+    "test.ts": `
+      import { Widget, Box, shapes } from './lib';
+      declare const point: { x: number; y: string | null };
+      declare const badPoint: { x: number; y: boolean };
+      declare const widget: Widget;
+      declare const maybeWidget: Widget | null;
+      declare const stringBox: Box<string>;
+      declare const entry: readonly [string, ...number[]];
+      declare const handler: (event: string, retries?: number) => void;
+      declare const tags: Map<string, Set<string>>;
+      declare const entity: { readonly id: string; update(): void };
+      declare const local: Local;
+      declare const pair: Pair<string>;
+      declare const formatter: Intl.DateTimeFormat;
+      declare const circle: shapes.Circle;
+    `,
+  });
+
+  test("builds schemas from type syntax", () => {
+    const Point = t.parse("{ x: number; y: string | null }");
+    expect(isAssignableTo(ctx, getTypeOf("point"), Point)).toBe(true);
+    expect(explain(ctx, getTypeOf("badPoint"), Point)).toMatchObject({
+      ok: false,
+      path: ["y"],
+    });
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("entry"),
+        t.parse("readonly [string, ...number[]]"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("handler"),
+        t.parse("(event: string, retries?: number) => void"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("tags"),
+        t.parse("Map<string, ReadonlySet<string>>"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("entity"),
+        t.parse("{ readonly id: string; update(): void }"),
+      ),
+    ).toBe(true);
+  });
+
+  test("prints as the equivalent builders", () => {
+    expect(
+      printSchema(
+        t.parse("{ readonly x?: number; 'data-id': `id-${number}` }"),
+      ),
+    ).toBe('{ readonly x?: number | undefined; "data-id": `id-${number}` }');
+    expect(printSchema(t.parse("(string | -1 | true)[]"))).toBe(
+      "(string | -1 | true)[]",
+    );
+    expect(printSchema(t.parse("{ [key: string]: number; (): void }"))).toBe(
+      "(() => void) & Record<string, number>",
+    );
+    expect(
+      printSchema(t.parse("Promise<Iterable<string>> | PromiseLike<void>")),
+    ).toBe("Promise<Iterable<string>> | PromiseLike<void>");
+    expect(printSchema(t.parse("AsyncIterable<number>"))).toBe(
+      "AsyncIterable<number>",
+    );
+  });
+
+  test("resolves imported and import() types", () => {
+    const MaybeWidget = t.parse("Widget | null", {
+      imports: { Widget: "./lib" },
+    });
+    expect(isAssignableTo(ctx, getTypeOf("maybeWidget"), MaybeWidget)).toBe(
+      true,
+    );
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("widget"),
+        t.parse('import("./lib").Widget'),
+      ),
+    ).toBe(true);
+  });
+
+  test("parses qualified and typeof import() types", () => {
+    expect(
+      printSchema(t.parse('import("typescript").server.Project | null')),
+    ).toBe('import("typescript").server.Project | null');
+    expect(printSchema(t.parse('typeof import("./lib")./* */ box'))).toBe(
+      'typeof import("./lib").box',
+    );
+    expect(() => t.parse('typeof import("./lib").box<string>')).toThrow(
+      "t.parse(): `typeof import()` types take no type arguments at 1:1.",
+    );
+  });
+
+  test("composes with the DSL", () => {
+    const Schema = t.array(
+      t.parse("Box<string>", { imports: { Box: "./lib" } }),
+    );
+    expect(printSchema(Schema)).toBe('import("./lib").Box<string>[]');
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("stringBox"),
+        t.parse("Box<number>", { imports: { Box: "./lib" } }),
+      ),
+    ).toBe(false);
+  });
+
+  test("reports syntax errors with their position", () => {
+    expect(() => t.parse("{ x: number")).toThrow(
+      "t.parse(): '}' expected at 1:12.",
+    );
+    expect(() => t.parse("number; string")).toThrow(
+      "t.parse(): expected a single type at 1:9.",
+    );
+  });
+
+  test("reports unsupported syntax with its position", () => {
+    expect(() => t.parse("{\n  x: keyof Widget;\n}")).toThrow(
+      'unsupported type syntax "keyof Widget" at 2:6.',
+    );
+  });
+
+  test("resolves other type names as globals", () => {
+    expect(isAssignableTo(ctx, getTypeOf("local"), t.parse("Local"))).toBe(
+      true,
+    );
+    expect(
+      isAssignableTo(ctx, getTypeOf("pair"), t.parse("Pair<string>")),
+    ).toBe(true);
+    expect(
+      isAssignableTo(ctx, getTypeOf("pair"), t.parse("Pair<number>")),
+    ).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("formatter"),
+        t.parse("Intl.DateTimeFormat"),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(ctx, getTypeOf("local"), t.parse("Intl.DateTimeFormat")),
+    ).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("circle"),
+        t.parse("shapes.Circle", { imports: { shapes: "./lib" } }),
+      ),
+    ).toBe(true);
+    expect(printSchema(t.parse("Pair<Local> | Intl.DateTimeFormat"))).toBe(
+      "Pair<Local> | Intl.DateTimeFormat",
+    );
+    expect(() =>
+      isAssignableTo(ctx, getTypeOf("widget"), t.parse("string | Widget")),
+    ).toThrow(
+      't.global(): could not resolve global "Widget" (in t.parse() text at 1:10).',
+    );
+  });
+
+  test("reports resolution errors with their position", () => {
+    const Schema = t.parse("string | Missing", {
+      imports: { Missing: "./lib" },
+    });
+    expect(() => isAssignableTo(ctx, getTypeOf("widget"), Schema)).toThrow(
+      'could not resolve export "Missing" from module "./lib" (in t.parse() text at 1:10).',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Records and collections
+// ---------------------------------------------------------------------------
+
+describe("t.record()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const byName: Record<string, number>;
+      declare const indexed: { [key: string]: number };
+      declare const literal: { a: number; b: number };
+      declare const mixed: { a: number; b: string };
+      declare const optional: { a?: number };
+      interface Named { a: number }
+      declare const named: Named;
+      declare const byIndex: number[];
+      declare const data: { "data-id": string; "data-kind": string; id: number };
+      declare const wrongValues: Record<string, string>;
+      declare const num: number;
+      declare const acceptsRecord: (r: Record<string, number>) => void;
+      declare const acceptsObject: (r: { a: number }) => void;
+    `,
+  });
+
+  const NumberRecord = t.record(t.string(), t.number());
+
+  test("matches index signatures and object literal types", () => {
+    expect(isAssignableTo(ctx, getTypeOf("byName"), NumberRecord)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("indexed"), NumberRecord)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("literal"), NumberRecord)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("optional"), NumberRecord)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("num"), NumberRecord)).toBe(false);
+  });
+
+  test("reports mismatched values", () => {
+    expect(explain(ctx, getTypeOf("mixed"), NumberRecord)).toMatchObject({
+      ok: false,
+      path: ["b"],
+      reason: "not-assignable",
+    });
+    expect(explain(ctx, getTypeOf("wrongValues"), NumberRecord)).toMatchObject({
+      ok: false,
+      path: ["[string]"],
+      reason: "not-assignable",
+    });
+  });
+
+  test("requires an index signature for interfaces", () => {
+    expect(explain(ctx, getTypeOf("named"), NumberRecord)).toMatchObject({
+      ok: false,
+      path: [],
+      reason: "missing-index-signature",
+    });
+  });
+
+  test("only checks keys matching the key schema", () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("byIndex"),
+        t.record(t.number(), t.number()),
+      ),
+    ).toBe(true);
+    const DataAttributes = t.record(
+      t.templateLiteral(["data-", t.string()]),
+      t.string(),
+    );
+    expect(isAssignableTo(ctx, getTypeOf("data"), DataAttributes)).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("data"),
+        t.record(t.union(t.literal("id"), t.literal("x")), t.string()),
+      ),
+    ).toBe(false);
+  });
+
+  test("checks records in parameter position", () => {
+    const Callback = t.function({ params: [NumberRecord] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsRecord"), Callback)).toBe(
+      true,
+    );
+    expect(explain(ctx, getTypeOf("acceptsObject"), Callback)).toMatchObject({
+      ok: false,
+      path: ["(param 0)", "a"],
+      reason: "missing-property",
+    });
+  });
+});
+
+describe("t.map() and t.set()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const map: Map<string, number>;
+      declare const readonlyMap: ReadonlyMap<string, number>;
+      declare const wrongValues: Map<string, string>;
+      class Registry extends Map<string, number> {}
+      declare const registry: Registry;
+      class Box<T> extends Map<string, T> {}
+      interface Layer<U> extends Box<U> {}
+      declare const box: Box<number>;
+      declare const layer: Layer<number>;
+      declare const stringBox: Box<string>;
+      declare const set: Set<string>;
+      declare const readonlySet: ReadonlySet<string>;
+      declare const weakMap: WeakMap<object, number>;
+      declare const fakeMap: { get(key: string): number; size: number };
+      declare const acceptsMap: (m: Map<string, number>) => void;
+      declare const acceptsRegistry: (m: Registry) => void;
+    `,
+  });
+
+  test("matches lib maps and subclasses", () => {
+    const Schema = t.map(t.string(), t.number());
+    expect(isAssignableTo(ctx, getTypeOf("map"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("registry"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("box"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("layer"), Schema)).toBe(true);
+    expect(explain(ctx, getTypeOf("stringBox"), Schema)).toMatchObject({
+      ok: false,
+      path: ["(value)"],
+    });
+    expect(explain(ctx, getTypeOf("weakMap"), Schema)).toMatchObject({
+      ok: false,
+      reason: "not-collection",
+    });
+    expect(explain(ctx, getTypeOf("fakeMap"), Schema)).toMatchObject({
+      ok: false,
+      reason: "not-collection",
+    });
+    expect(explain(ctx, getTypeOf("wrongValues"), Schema)).toMatchObject({
+      ok: false,
+      path: ["(value)"],
+      reason: "not-assignable",
+    });
+  });
+
+  test("only matches readonly collections when readonly", () => {
+    expect(
+      explain(ctx, getTypeOf("readonlyMap"), t.map(t.string(), t.number())),
+    ).toMatchObject({ ok: false, reason: "readonly-collection" });
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("readonlyMap"),
+        t.map(t.string(), t.number(), { readonly: true }),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("map"),
+        t.map(t.string(), t.number(), {
+          readonly: true,
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  test("matches sets", () => {
+    expect(isAssignableTo(ctx, getTypeOf("set"), t.set(t.string()))).toBe(true);
+    expect(
+      isAssignableTo(ctx, getTypeOf("readonlySet"), t.set(t.string())),
+    ).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("readonlySet"),
+        t.set(t.string(), { readonly: true }),
+      ),
+    ).toBe(true);
+    expect(explain(ctx, getTypeOf("set"), t.set(t.number()))).toMatchObject({
+      ok: false,
+      path: ["(value)"],
+    });
+  });
+
+  test("checks maps in parameter position", () => {
+    const Callback = t.function({ params: [t.map(t.string(), t.number())] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsMap"), Callback)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("acceptsRegistry"), Callback)).toBe(
+      false,
+    );
+  });
+});
+
+describe("promise and thenable schemas", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const num: number;
+      declare const promise: Promise<number>;
+      declare const stringPromise: Promise<string>;
+      declare const nested: Promise<Promise<number>>;
+      declare const promiseLike: PromiseLike<number>;
+      class Task extends Promise<number> {}
+      declare const task: Task;
+      declare const thenable: { then(onfulfilled: (value: number) => void): void };
+      declare const notThenable: { then: number };
+      declare const maybePromise: number | Promise<number>;
+      declare const acceptsPromise: (p: Promise<number>) => void;
+      declare const acceptsPromiseLike: (p: PromiseLike<number>) => void;
+      declare const acceptsNumber: (p: number) => void;
+    `,
+  });
+
+  test("t.promise() matches lib promises and subclasses", () => {
+    const Schema = t.promise(t.number());
+    expect(isAssignableTo(ctx, getTypeOf("promise"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("task"), Schema)).toBe(true);
+    expect(explain(ctx, getTypeOf("promiseLike"), Schema)).toMatchObject({
+      ok: false,
+      reason: "not-promise",
+    });
+    expect(explain(ctx, getTypeOf("stringPromise"), Schema)).toMatchObject({
+      ok: false,
+      path: ["(awaited)"],
+      reason: "not-assignable",
+    });
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("nested"),
+        t.promise(t.promise(t.number())),
+      ),
+    ).toBe(true);
+  });
+
+  test("t.thenable() matches anything with a compatible then()", () => {
+    const Schema = t.thenable(t.number());
+    expect(isAssignableTo(ctx, getTypeOf("promise"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("promiseLike"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("thenable"), Schema)).toBe(true);
+    expect(explain(ctx, getTypeOf("notThenable"), Schema)).toMatchObject({
+      ok: false,
+      reason: "not-thenable",
+    });
+    expect(explain(ctx, getTypeOf("stringPromise"), Schema)).toMatchObject({
+      ok: false,
+      path: ["(awaited)"],
+    });
+  });
+
+  test("t.awaited() unwraps thenables like await", () => {
+    const Schema = t.awaited(t.number());
+    expect(isAssignableTo(ctx, getTypeOf("num"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("nested"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("thenable"), Schema)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("maybePromise"), Schema)).toBe(true);
+    expect(explain(ctx, getTypeOf("stringPromise"), Schema)).toMatchObject({
+      ok: false,
+      path: ["(awaited)"],
+    });
+  });
+
+  test("checks promises in parameter position", () => {
+    const Callback = t.function({ params: [t.promise(t.number())] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsPromise"), Callback)).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("acceptsPromiseLike"), Callback)).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("acceptsNumber"), Callback)).toBe(
+      false,
+    );
+
+    const AwaitedCallback = t.function({ params: [t.awaited(t.number())] });
+    expect(
+      isAssignableTo(ctx, getTypeOf("acceptsPromiseLike"), AwaitedCallback),
+    ).toBe(false);
+  });
+});
+
+describe("iterable and generator schemas", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const nums: number[];
+      declare const pair: [number, string];
+      declare const str: string;
+      declare const set: Set<number>;
+      declare const map: Map<string, number>;
+      declare const iterable: Iterable<number>;
+      declare const asyncIterable: AsyncIterable<number>;
+      declare const point: { x: number };
+      declare function* numbers(): Generator<number, string, boolean>;
+      declare const gen: ReturnType<typeof numbers>;
+      declare const asyncGen: AsyncGenerator<number, void>;
+      declare const acceptsIterable: (values: Iterable<number>) => void;
+      declare const acceptsArray: (values: number[]) => void;
+    `,
+  });
+
+  test("t.iterable() reads the iterator protocol", () => {
+    const Numbers = t.iterable(t.number());
+    expect(isAssignableTo(ctx, getTypeOf("nums"), Numbers)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("set"), Numbers)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("iterable"), Numbers)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("gen"), Numbers)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("str"), t.iterable(t.string()))).toBe(
+      true,
+    );
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("map"),
+        t.iterable(t.tuple([t.string(), t.number()])),
+      ),
+    ).toBe(true);
+    expect(explain(ctx, getTypeOf("pair"), Numbers)).toMatchObject({
+      ok: false,
+      path: ["(yield)"],
+      reason: "not-assignable",
+    });
+    expect(explain(ctx, getTypeOf("point"), Numbers)).toMatchObject({
+      ok: false,
+      reason: "not-iterable",
+    });
+    expect(explain(ctx, getTypeOf("asyncIterable"), Numbers)).toMatchObject({
+      ok: false,
+      reason: "not-iterable",
+    });
+  });
+
+  test("t.asyncIterable() reads the async iterator protocol", () => {
+    const Numbers = t.asyncIterable(t.number());
+    expect(isAssignableTo(ctx, getTypeOf("asyncIterable"), Numbers)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("asyncGen"), Numbers)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("nums"), Numbers)).toBe(false);
+    expect(
+      isAssignableTo(ctx, getTypeOf("asyncGen"), t.asyncIterable(t.string())),
+    ).toBe(false);
+  });
+
+  test("t.generator() checks the generator type arguments", () => {
+    expect(isAssignableTo(ctx, getTypeOf("gen"), t.generator())).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("gen"),
+        t.generator({
+          yields: t.number(),
+          returns: t.string(),
+          next: t.literal(true),
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      explain(ctx, getTypeOf("gen"), t.generator({ returns: t.number() })),
+    ).toMatchObject({ ok: false, path: ["(return)"] });
+    expect(
+      explain(ctx, getTypeOf("gen"), t.generator({ next: t.string() })),
+    ).toMatchObject({ ok: false, path: ["(next)"] });
+    expect(explain(ctx, getTypeOf("iterable"), t.generator())).toMatchObject({
+      ok: false,
+      reason: "not-generator",
+    });
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("asyncGen"),
+        t.generator({}, { async: true }),
+      ),
+    ).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("asyncGen"), t.generator())).toBe(
+      false,
+    );
+  });
+
+  test("checks iterables in parameter position", () => {
+    const Callback = t.function({ params: [t.iterable(t.number())] });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsIterable"), Callback)).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("acceptsArray"), Callback)).toBe(
+      false,
+    );
+  });
+});
+
+describe("t.instanceOf()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "lib.ts": `
+      export class Window { id = 0; close(): void {} }
+      export class Panel extends Window { title = ""; }
+      export class Box<T> { value!: T; }
+      export interface Shape { area(): number }
+      export type Alias = { id: number };
+    `,
+    "test.ts": `
+      import { Window, Panel, Box, Shape } from './lib';
+      class Dialog extends Panel {}
+      class StringBox extends Box<string> {}
+      declare const window: Window;
+      declare const panel: Panel;
+      declare const dialog: Dialog;
+      declare const lookalike: { id: number; close(): void };
+      declare const box: Box<number>;
+      declare const stringBox: StringBox;
+      declare const windowOrPanel: Window | Panel;
+      declare const windowOrNull: Window | null;
+      declare const square: Shape & { side: number };
+      declare const windowClass: typeof Window;
+      declare const acceptsWindow: (w: Window) => void;
+      declare const acceptsPanel: (p: Panel) => void;
+    `,
+  });
+
+  test("checks the class and its subclasses, not the structure", () => {
+    const Win = t.instanceOf(t.fromModule("./lib", "Window"));
+    expect(isAssignableTo(ctx, getTypeOf("window"), Win)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("panel"), Win)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("dialog"), Win)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("windowOrPanel"), Win)).toBe(true);
+    expect(explain(ctx, getTypeOf("lookalike"), Win)).toMatchObject({
+      ok: false,
+      reason: "not-instance",
+    });
+    expect(isAssignableTo(ctx, getTypeOf("windowClass"), Win)).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("windowOrNull"), Win)).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("window"),
+        t.instanceOf(t.fromModule("./lib", "Panel")),
+      ),
+    ).toBe(false);
+  });
+
+  test("matches generic classes and interfaces", () => {
+    const AnyBox = t.instanceOf(t.fromModule("./lib", "Box"));
+    expect(isAssignableTo(ctx, getTypeOf("box"), AnyBox)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("stringBox"), AnyBox)).toBe(true);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("square"),
+        t.instanceOf(t.fromModule("./lib", "Shape")),
+      ),
+    ).toBe(true);
+  });
+
+  test("checks in parameter position", () => {
+    const Callback = t.function({
+      params: [t.instanceOf(t.fromModule("./lib", "Window"))],
+    });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsWindow"), Callback)).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("acceptsPanel"), Callback)).toBe(
+      false,
+    );
+  });
+
+  test("throws for schemas other than module classes", () => {
+    expect(() => t.instanceOf(t.object({}))).toThrow(
+      "t.instanceOf() expects a t.fromModule() or t.global() schema.",
+    );
+    expect(() =>
+      isAssignableTo(
+        ctx,
+        getTypeOf("window"),
+        t.instanceOf(t.fromModule("./lib", "Alias")),
+      ),
+    ).toThrow('export "Alias" of module "./lib" is not a class or interface');
+  });
+});
+
+describe("t.branded()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const UserId: unique symbol;
+      type UserId = string & { __brand: "UserId" };
+      type OrderId = string & { __brand: "OrderId" };
+      type SymbolUserId = string & { readonly [UserId]: true };
+      type NamedUserId = string & { readonly UserId: unique symbol };
+      type Meters = number & { __brand: "Meters" };
+      type TaggedUserId = string & { _brand: "UserId" };
+      type Admin = string & { role: "UserId" };
+      declare const userId: UserId;
+      declare const taggedUserId: TaggedUserId;
+      declare const admin: Admin;
+      declare const orderId: OrderId;
+      declare const symbolUserId: SymbolUserId;
+      declare const namedUserId: NamedUserId;
+      declare const meters: Meters;
+      declare const plain: string;
+      declare const maybeUserId: UserId | undefined;
+      declare const acceptsString: (id: string) => void;
+      declare const acceptsUserId: (id: UserId) => void;
+      declare const acceptsOrderId: (id: OrderId) => void;
+    `,
+  });
+
+  test("recognizes the common branding patterns", () => {
+    const UserId = t.branded(t.string(), "UserId");
+    expect(isAssignableTo(ctx, getTypeOf("userId"), UserId)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("symbolUserId"), UserId)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("namedUserId"), UserId)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("taggedUserId"), UserId)).toBe(true);
+    expect(explain(ctx, getTypeOf("admin"), UserId)).toMatchObject({
+      ok: false,
+      reason: "missing-brand",
+    });
+    expect(explain(ctx, getTypeOf("plain"), UserId)).toMatchObject({
+      ok: false,
+      reason: "missing-brand",
+    });
+    expect(explain(ctx, getTypeOf("orderId"), UserId)).toMatchObject({
+      ok: false,
+      reason: "missing-brand",
+    });
+    expect(isAssignableTo(ctx, getTypeOf("maybeUserId"), UserId)).toBe(false);
+    expect(
+      isAssignableTo(ctx, getTypeOf("maybeUserId"), UserId.optional()),
+    ).toBe(true);
+  });
+
+  test("checks the branded type against the inner schema", () => {
+    expect(
+      explain(ctx, getTypeOf("meters"), t.branded(t.string(), "Meters")),
+    ).toMatchObject({ ok: false, reason: "not-assignable" });
+    expect(
+      isAssignableTo(ctx, getTypeOf("meters"), t.branded(t.number(), "Meters")),
+    ).toBe(true);
+  });
+
+  test("checks in parameter position", () => {
+    const Callback = t.function({
+      params: [t.branded(t.string(), "UserId")],
+    });
+    expect(isAssignableTo(ctx, getTypeOf("acceptsString"), Callback)).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("acceptsUserId"), Callback)).toBe(
+      true,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("acceptsOrderId"), Callback)).toBe(
+      false,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Module: error cases
+// ---------------------------------------------------------------------------
+
+describe("t.fromModule() error handling", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const val: string;
+    `,
+  });
+
+  test("throws when program is not provided", () => {
+    const Schema = t.fromModule("fake-lib", "Foo");
+    const ctxNoProgram: SchemaContext = { checker: ctx.checker };
+    expect(() =>
+      isAssignableTo(ctxNoProgram, getTypeOf("val"), Schema),
+    ).toThrow("t.fromModule() requires `program`");
+  });
+
+  test("throws for non-existent module", () => {
+    const Nonexistent = t.fromModule("no-such-module", "Foo");
+    expect(() => isAssignableTo(ctx, getTypeOf("val"), Nonexistent)).toThrow(
+      'could not resolve export "Foo" from module "no-such-module"',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Custom
+// ---------------------------------------------------------------------------
+
+describe("t.custom()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      const arr: number[] = [];
+      const num: number = 0;
+    `,
+  });
+
+  test("delegates to the provided predicate", () => {
+    const HasLength = t.custom((type) => type.getProperty("length") != null);
+    expect(isAssignableTo(ctx, getTypeOf("arr"), HasLength)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("num"), HasLength)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Reverse and equivalence checks
+// ---------------------------------------------------------------------------
+
+describe("isAssignableFrom() and isEquivalentTo()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "lib.ts": `
+      export interface Point { x: number; y: number }
+    `,
+    "test.ts": `
+      import { Point } from './lib';
+      declare const num: number;
+      declare const numOrString: number | string;
+      declare const literal: 42;
+      declare const xOnly: { x: number };
+      declare const xy: { x: number; y: number };
+      declare const xyz: { x: number; y: number; z: number };
+      declare const point: Point;
+      declare const optionalY: { x: number; y?: number };
+      declare const empty: {};
+      declare const nonPrimitive: object;
+      declare const fn: Function;
+      declare const numbers: Iterable<number>;
+      declare const strings: Iterable<string>;
+      declare const arrayLike: ArrayLike<number>;
+      declare const entries: Iterable<[string, number]>;
+    `,
+  });
+
+  test("checks primitives and unions in reverse", () => {
+    expect(isAssignableFrom(ctx, getTypeOf("num"), t.number())).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("numOrString"), t.number())).toBe(
+      true,
+    );
+    expect(isAssignableFrom(ctx, getTypeOf("literal"), t.number())).toBe(false);
+    expect(
+      isAssignableFrom(ctx, getTypeOf("num"), t.union(t.number(), t.string())),
+    ).toBe(false);
+  });
+
+  test("checks objects in reverse", () => {
+    const XY = t.object({ x: t.number(), y: t.number() });
+    expect(isAssignableFrom(ctx, getTypeOf("xOnly"), XY)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("xy"), XY)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("xyz"), XY)).toBe(false);
+    expect(isAssignableFrom(ctx, getTypeOf("optionalY"), XY)).toBe(true);
+  });
+
+  test("combines intersected objects in reverse", () => {
+    const XandY = t.intersection(
+      t.object({ x: t.number() }),
+      t.object({ y: t.number() }),
+    );
+    expect(isAssignableFrom(ctx, getTypeOf("xy"), XandY)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("xyz"), XandY)).toBe(false);
+  });
+
+  test("checks schemas against their supertypes in reverse", () => {
+    const from = (name: string, schema: TypeSchema): boolean =>
+      isAssignableFrom(ctx, getTypeOf(name), schema);
+    const Numbers = t.array(t.number());
+    expect(from("empty", Numbers)).toBe(true);
+    expect(from("nonPrimitive", Numbers)).toBe(true);
+    expect(from("numbers", Numbers)).toBe(true);
+    expect(from("arrayLike", Numbers)).toBe(true);
+    expect(from("strings", Numbers)).toBe(false);
+    expect(from("fn", Numbers)).toBe(false);
+
+    const Pair = t.tuple([t.number(), t.number().optional()]);
+    expect(from("nonPrimitive", Pair)).toBe(true);
+    expect(from("numbers", Pair)).toBe(false);
+    expect(from("numbers", t.tuple([t.number(), t.number()]))).toBe(true);
+    expect(from("arrayLike", t.tuple([t.number()], { rest: t.number() }))).toBe(
+      true,
+    );
+    expect(from("strings", t.tuple([t.number()]))).toBe(false);
+
+    expect(from("numbers", t.set(t.number()))).toBe(true);
+    expect(from("empty", t.set(t.number(), { readonly: true }))).toBe(true);
+    expect(from("arrayLike", t.set(t.number()))).toBe(false);
+    expect(from("entries", t.map(t.string(), t.number()))).toBe(true);
+    expect(from("numbers", t.map(t.string(), t.number()))).toBe(false);
+
+    const Callback = t.function({ returns: t.number() });
+    expect(from("fn", Callback)).toBe(true);
+    expect(from("nonPrimitive", Callback)).toBe(true);
+    expect(from("numbers", Callback)).toBe(false);
+
+    expect(from("empty", t.promise(t.number()))).toBe(true);
+    expect(from("numbers", t.promise(t.number()))).toBe(false);
+    expect(from("nonPrimitive", t.iterable(t.number()))).toBe(true);
+    expect(from("numbers", t.generator({ yields: t.number() }))).toBe(true);
+    expect(from("strings", t.generator({ yields: t.number() }))).toBe(false);
+  });
+
+  test("checks module types in reverse", () => {
+    const Point = t.fromModule("./lib", "Point");
+    expect(isAssignableFrom(ctx, getTypeOf("xOnly"), Point)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("xyz"), Point)).toBe(false);
+  });
+
+  test("isEquivalentTo() requires both directions", () => {
+    const XY = t.object({ x: t.number(), y: t.number() });
+    expect(isEquivalentTo(ctx, getTypeOf("xy"), XY)).toBe(true);
+    expect(isEquivalentTo(ctx, getTypeOf("point"), XY)).toBe(true);
+    expect(isEquivalentTo(ctx, getTypeOf("xyz"), XY)).toBe(false);
+    expect(isEquivalentTo(ctx, getTypeOf("xOnly"), XY)).toBe(false);
+    expect(isEquivalentTo(ctx, getTypeOf("num"), t.number())).toBe(true);
+    expect(isEquivalentTo(ctx, getTypeOf("literal"), t.number())).toBe(false);
+  });
+
+  test("uses the reverse predicate of t.custom()", () => {
+    const Numeric = t.custom(
+      (type) => (type.flags & ts.TypeFlags.NumberLike) !== 0,
+      "number",
+      {
+        acceptsFrom: (type, { checker }) =>
+          checker.isTypeAssignableTo(checker.getNumberType(), type),
+      },
+    );
+    expect(isAssignableFrom(ctx, getTypeOf("numOrString"), Numeric)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("literal"), Numeric)).toBe(false);
+    expect(() =>
+      isAssignableFrom(
+        ctx,
+        getTypeOf("num"),
+        t.custom(() => true),
+      ),
+    ).toThrow("t.custom() schemas without `acceptsFrom` cannot be checked");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Compiled schemas
+// ---------------------------------------------------------------------------
+
+describe("t.compiled()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "lib.ts": `
+      export interface Point { x: number; y: number }
+    `,
+    "test.ts": `
+      import { Point } from './lib';
+      declare const num: number;
+      declare const str: string;
+      declare const anyValue: any;
+      declare const point: Point;
+      declare const xOnly: { x: number };
+      declare const maybeY: { x: number; y?: number };
+      declare const nums: number[];
+      declare const strings: readonly string[];
+      declare const dict: Record<string, number>;
+      declare const boolOrNum: boolean | number;
+      declare const tree: Tree;
+      interface Tree { value: number; children: Tree[] }
+      declare const callback: (value: string) => void;
+      declare const wideCallback: (value: string | number) => void;
+      declare const handler: { handle(event: string | number): void };
+      declare const narrowHandler: { handle(event: string): void };
+      declare const ctor: new (x: number) => Point;
+      declare const variadic: (...args: number[]) => void;
+      declare const takesNumbers: (values: number[]) => void;
+    `,
+  });
+
+  test("compiles schemas to the equivalent compiler types", () => {
+    const { checker } = ctx;
+    const print = (schema: TypeSchema) =>
+      checker.typeToString(compileSchema(ctx, schema)!);
+    expect(print(t.object({ x: t.number(), y: t.string().optional() }))).toBe(
+      "{ x: number; y?: string | undefined; }",
+    );
+    expect(print(t.union(t.literal("a"), t.null()))).toBe('"a" | null');
+    expect(print(t.array(t.boolean()))).toBe("boolean[]");
+    expect(print(t.record(t.string(), t.number()))).toBe(
+      "{ [x: string]: number; }",
+    );
+    expect(print(t.function({ params: [t.number()], returns: t.void() }))).toBe(
+      "(arg0: number) => void",
+    );
+    expect(print(t.fromModule("./lib", "Point"))).toBe("Point");
+  });
+
+  test("returns the same type for repeated compilations", () => {
+    const Point = t.object({ x: t.number(), y: t.number() });
+    expect(compileSchema(ctx, Point)).toBe(compileSchema(ctx, Point));
+  });
+
+  test("does not compile schemas without an exact equivalent", () => {
+    expect(
+      compileSchema(
+        ctx,
+        t.custom(() => true),
+      ),
+    ).toBeUndefined();
+    expect(
+      compileSchema(ctx, t.object({ x: t.tuple([t.number()]) })),
+    ).toBeUndefined();
+    expect(
+      compileSchema(ctx, t.object({ x: t.number() }).strict()),
+    ).toBeUndefined();
+    expect(
+      compileSchema(ctx, t.object({ x: t.number().readonly() })),
+    ).toBeUndefined();
+  });
+
+  test("checks objects, arrays and records", () => {
+    const Point = t.compiled(t.object({ x: t.number(), y: t.number() }));
+    expect(isAssignableTo(ctx, getTypeOf("point"), Point)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("xOnly"), Point)).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("maybeY"), Point)).toBe(false);
+
+    const Numbers = t.compiled(t.array(t.number()));
+    expect(isAssignableTo(ctx, getTypeOf("nums"), Numbers)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("strings"), Numbers)).toBe(false);
+
+    const Dict = t.compiled(t.record(t.string(), t.number()));
+    expect(isAssignableTo(ctx, getTypeOf("dict"), Dict)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("xOnly"), Dict)).toBe(true);
+    // Interfaces have no implicit index signature.
+    expect(isAssignableTo(ctx, getTypeOf("point"), Dict)).toBe(false);
+  });
+
+  test("checks unions with the checker's own rules", () => {
+    const BoolOrNum = t.compiled(
+      t.union(t.literal(true), t.literal(false), t.number()),
+    );
+    expect(isAssignableTo(ctx, getTypeOf("boolOrNum"), BoolOrNum)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("str"), BoolOrNum)).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("anyValue"), BoolOrNum)).toBe(true);
+  });
+
+  test("checks recursive schemas", () => {
+    const Tree: TypeSchema = t.object({
+      value: t.number(),
+      children: t.array(t.lazy(() => Tree)),
+    });
+    expect(isAssignableTo(ctx, getTypeOf("tree"), t.compiled(Tree))).toBe(true);
+    const StringTree: TypeSchema = t.object({
+      value: t.string(),
+      children: t.array(t.lazy(() => StringTree)),
+    });
+    expect(isAssignableTo(ctx, getTypeOf("tree"), t.compiled(StringTree))).toBe(
+      false,
+    );
+  });
+
+  test("checks signatures with the right variance", () => {
+    const Callback = t.compiled(
+      t.function({ params: [t.string()], returns: t.void() }),
+    );
+    expect(isAssignableTo(ctx, getTypeOf("callback"), Callback)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("wideCallback"), Callback)).toBe(true);
+    const WideCallback = t.compiled(
+      t.function({ params: [t.union(t.string(), t.number())] }),
+    );
+    expect(isAssignableTo(ctx, getTypeOf("callback"), WideCallback)).toBe(
+      false,
+    );
+
+    const Handler = t.compiled(
+      t.object({
+        handle: t.method({ params: [t.union(t.string(), t.number())] }),
+      }),
+    );
+    expect(isAssignableTo(ctx, getTypeOf("handler"), Handler)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("narrowHandler"), Handler)).toBe(true);
+
+    const Ctor = t.compiled(
+      t.newable({
+        params: [t.number()],
+        returns: t.fromModule("./lib", "Point"),
+      }),
+    );
+    expect(isAssignableTo(ctx, getTypeOf("ctor"), Ctor)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("callback"), Ctor)).toBe(false);
+
+    const Variadic = t.compiled(t.function({ rest: t.number() }));
+    expect(isAssignableTo(ctx, getTypeOf("variadic"), Variadic)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("callback"), Variadic)).toBe(false);
+  });
+
+  test("checks in reverse", () => {
+    const XY = t.compiled(t.object({ x: t.number(), y: t.number() }));
+    expect(isAssignableFrom(ctx, getTypeOf("xOnly"), XY)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("point"), XY)).toBe(true);
+    expect(isAssignableFrom(ctx, getTypeOf("num"), XY)).toBe(false);
+  });
+
+  test("agrees with the regular checks on arrays in reverse", () => {
+    const Numbers = t.array(t.number());
+    const TakesNumbers = t.function({ params: [Numbers] });
+    const cases: [string, TypeSchema, "to" | "from"][] = [
+      ["nums", Numbers, "from"],
+      ["strings", Numbers, "from"],
+      ["takesNumbers", TakesNumbers, "to"],
+      ["callback", TakesNumbers, "to"],
+    ];
+    for (const [name, schema, direction] of cases) {
+      const check = direction === "to" ? isAssignableTo : isAssignableFrom;
+      expect(check(ctx, getTypeOf(name), t.compiled(schema))).toBe(
+        check(ctx, getTypeOf(name), schema),
+      );
+    }
+    expect(isAssignableFrom(ctx, getTypeOf("nums"), t.compiled(Numbers))).toBe(
+      true,
+    );
+    expect(
+      isAssignableTo(ctx, getTypeOf("takesNumbers"), t.compiled(TakesNumbers)),
+    ).toBe(true);
+  });
+
+  test("falls back to the regular checks for t.custom()", () => {
+    const Numeric = t.compiled(
+      t.object({
+        x: t.custom((type) => (type.flags & ts.TypeFlags.Number) !== 0),
+      }),
+    );
+    expect(isAssignableTo(ctx, getTypeOf("point"), Numeric)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("num"), Numeric)).toBe(false);
+  });
+
+  test("explains mismatches in detail", () => {
+    const Point = t.compiled(t.object({ x: t.number(), y: t.string() }));
+    expect(explain(ctx, getTypeOf("point"), Point)).toMatchObject({
+      ok: false,
+      path: ["y"],
+      reason: "not-assignable",
+    });
+    expect(printSchema(Point)).toBe("{ x: number; y: string }");
+  });
+
+  test("keeps the object, export and discriminant of the schema", () => {
+    const Point = t.compiled(t.object({ x: t.number(), y: t.number() }));
+    expect(isAssignableTo(ctx, getTypeOf("point"), Point.strict())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("xOnly"), Point.pick(["x"]))).toBe(
+      true,
+    );
+    expect(
+      isAssignableTo(ctx, getTypeOf("point"), Point.extend({ z: t.number() })),
+    ).toBe(false);
+
+    const Numbers = t.compiled(t.global("Array")).of(t.number());
+    expect(isAssignableTo(ctx, getTypeOf("nums"), Numbers)).toBe(true);
+
+    const Shape = t.compiled(
+      t.discriminatedUnion("kind", { point: t.object({ x: t.number() }) }),
+    );
+    expect(explainVariants(ctx, getTypeOf("point"), Shape)).toMatchObject([
+      { variant: undefined, result: { ok: false, reason: "missing-property" } },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// any source types
+// ---------------------------------------------------------------------------
+
+describe("anySource policy", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "lib.ts": `
+      export interface Widget { id: number }
+      export interface Rect { width: number; origin: { x: number } }
+      export interface Node { value: number; next?: Node }
+    `,
+    "test.ts": `
+      import type { Node } from "./lib";
+      declare const untyped: any;
+      declare const num: number;
+      declare const bounds: { x: number; y: any };
+      declare const rect: { width: any; origin: { x: number } };
+      declare const deepRect: { width: number; origin: { x: any } };
+      declare const dates: Array<Date | any>;
+      declare const node: Node;
+      declare const list: { value: number; next: { value: any } };
+      declare const typed: { x: number; y: number };
+      declare const tuple: [string, any];
+      declare const callback: () => any;
+    `,
+  });
+  const reject: SchemaContext = { ...ctx, anySource: "reject" };
+  const report: SchemaContext = { ...ctx, anySource: "report" };
+  const Point = t.object({ x: t.number(), y: t.number() });
+
+  test("accepts any by default", () => {
+    expect(isAssignableTo(ctx, getTypeOf("untyped"), t.number())).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("bounds"), Point)).toBe(true);
+    expect(explain(ctx, getTypeOf("bounds"), Point)).toEqual({ ok: true });
+  });
+
+  test("rejects any with the reject policy, at any depth", () => {
+    const untyped = getTypeOf("untyped");
+    expect(explain(reject, untyped, t.number())).toMatchObject({
+      ok: false,
+      path: [],
+      reason: "any-source",
+    });
+    expect(explain(reject, getTypeOf("bounds"), Point)).toMatchObject({
+      ok: false,
+      path: ["y"],
+      reason: "any-source",
+    });
+    expect(
+      explain(reject, untyped, t.union(t.string(), t.number())),
+    ).toMatchObject({ ok: false, path: [], reason: "any-source" });
+    expect(
+      explain(reject, getTypeOf("tuple"), t.tuple([t.string(), t.string()])),
+    ).toMatchObject({ ok: false, path: [1], reason: "any-source" });
+    expect(
+      explain(
+        reject,
+        getTypeOf("callback"),
+        t.function({ returns: t.string() }),
+      ),
+    ).toMatchObject({ ok: false, path: ["(return)"], reason: "any-source" });
+    expect(
+      isAssignableTo(reject, untyped, t.fromModule("./lib", "Widget")),
+    ).toBe(false);
+    expect(isAssignableTo(reject, getTypeOf("typed"), Point)).toBe(true);
+  });
+
+  test("checks the any nested in module and global exports", () => {
+    const Rect = t.fromModule("./lib", "Rect");
+    expect(explain(reject, getTypeOf("rect"), Rect)).toMatchObject({
+      ok: false,
+      path: ["width"],
+      reason: "any-source",
+    });
+    expect(explain(reject, getTypeOf("deepRect"), Rect)).toMatchObject({
+      ok: false,
+      path: ["origin", "x"],
+      reason: "any-source",
+    });
+    expect(explain(report, getTypeOf("rect"), Rect)).toMatchObject({
+      ok: true,
+      anySource: { path: ["width"], reason: "any-source" },
+    });
+    expect(explain(ctx, getTypeOf("rect"), Rect)).toEqual({ ok: true });
+    expect(
+      explain(reject, getTypeOf("dates"), t.global("Array").of(t.date())),
+    ).toMatchObject({ ok: false, path: ["<T>"], reason: "any-source" });
+    expect(
+      explain(reject, getTypeOf("dates"), t.global("ReadonlyArray")),
+    ).toMatchObject({ ok: true });
+    const Node = t.fromModule("./lib", "Node");
+    expect(isAssignableTo(reject, getTypeOf("node"), Node)).toBe(true);
+    expect(explain(reject, getTypeOf("list"), Node)).toMatchObject({
+      ok: false,
+      path: ["next", "value"],
+      reason: "any-source",
+    });
+  });
+
+  test("lets schemas that accept every type accept any", () => {
+    const untyped = getTypeOf("untyped");
+    expect(isAssignableTo(reject, untyped, t.unknown())).toBe(true);
+    expect(isAssignableTo(reject, untyped, t.any())).toBe(true);
+    expect(
+      isAssignableTo(reject, untyped, t.union(t.number(), t.unknown())),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        reject,
+        untyped,
+        t.lazy(() => t.unknown()),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(
+        reject,
+        getTypeOf("bounds"),
+        t.object({ x: t.number(), y: t.capture("y", t.unknown()) }),
+      ),
+    ).toBe(true);
+  });
+
+  test("flags matches that only hold because of any with the report policy", () => {
+    expect(explain(report, getTypeOf("bounds"), Point)).toMatchObject({
+      ok: true,
+      anySource: { path: ["y"], reason: "any-source" },
+    });
+    // Cached results are reported again.
+    expect(explain(report, getTypeOf("bounds"), Point)).toMatchObject({
+      ok: true,
+      anySource: { path: ["y"] },
+    });
+    expect(explain(report, getTypeOf("typed"), Point)).toEqual({ ok: true });
+    expect(isAssignableTo(report, getTypeOf("bounds"), Point)).toBe(true);
+    expect(
+      match(
+        report,
+        getTypeOf("bounds"),
+        t.object({ x: t.capture("x", t.number()), y: t.number() }),
+      ),
+    ).toMatchObject({
+      ok: true,
+      captures: { x: getTypeOf("num") },
+      anySource: { path: ["y"] },
+    });
+  });
+
+  test("sets the policy per schema with .anySource()", () => {
+    const StrictPoint = Point.anySource("reject");
+    expect(explain(ctx, getTypeOf("bounds"), StrictPoint)).toMatchObject({
+      ok: false,
+      path: ["y"],
+      reason: "any-source",
+    });
+    expect(
+      isAssignableTo(
+        reject,
+        getTypeOf("bounds"),
+        t.object({ x: t.number(), y: t.number().anySource("accept") }),
+      ),
+    ).toBe(true);
+    expect(
+      isAssignableTo(ctx, getTypeOf("untyped"), t.compiled(StrictPoint)),
+    ).toBe(false);
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("untyped"),
+        t.number().anySource("reject").optional(),
+      ),
+    ).toBe(false);
+  });
+
+  test("honors the policy in compiled schemas", () => {
+    expect(isAssignableTo(reject, getTypeOf("bounds"), t.compiled(Point))).toBe(
+      false,
+    );
+    expect(isAssignableTo(ctx, getTypeOf("bounds"), t.compiled(Point))).toBe(
+      true,
+    );
+  });
+});
+
+describe("t.anyType()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const untyped: any;
+      declare const opaque: unknown;
+      declare const num: number;
+      declare const bounds: { x: number; y: any };
+      declare const acceptsNumber: (value: number) => void;
+    `,
+  });
+
+  test("only matches any", () => {
+    expect(isAssignableTo(ctx, getTypeOf("untyped"), t.anyType())).toBe(true);
+    expect(explain(ctx, getTypeOf("num"), t.anyType())).toMatchObject({
+      ok: false,
+      reason: "not-any",
+    });
+    expect(isAssignableTo(ctx, getTypeOf("opaque"), t.anyType())).toBe(false);
+    expect(
+      isAssignableTo(
+        { ...ctx, anySource: "reject" },
+        getTypeOf("bounds"),
+        t.object({ y: t.anyType() }),
+      ),
+    ).toBe(true);
+  });
+
+  test("checks in reverse and prints as any", () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        getTypeOf("acceptsNumber"),
+        t.function({ params: [t.anyType()] }),
+      ),
+    ).toBe(true);
+    expect(printSchema(t.array(t.anyType()))).toBe("any[]");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Nodes, symbols and signatures
+// ---------------------------------------------------------------------------
+
+describe("type sources", () => {
+  const { ctx } = createTestContext({
+    "test.ts": `
+      declare const value: string | number;
+      declare function take(input: string | number): void;
+      declare function overloaded(x: string): string;
+      declare function overloaded(x: number): number;
+      type /*alias*/Pair = [string, number];
+      if (typeof value === "string") {
+        /*narrowed*/value;
+      }
+      take(/*argument*/"a");
+      /*overloaded*/overloaded;
+    `,
+  });
+  const { checker, sourceFile } = ctx;
+
+  /** Returns the innermost node right after a marker comment. */
+  const nodeAt = (marker: string): ts.Node => {
+    const comment = `/*${marker}*/`;
+    const position = sourceFile.text.indexOf(comment) + comment.length;
+    const find = (node: ts.Node): ts.Node | undefined =>
+      node.getStart(sourceFile) <= position && position < node.end
+        ? (ts.forEachChild(node, find) ??
+          (node.getStart(sourceFile) === position ? node : undefined))
+        : undefined;
+    return find(sourceFile!)!;
+  };
+
+  test("checks the narrowed type of a node by default", () => {
+    const node = nodeAt("narrowed");
+    expect(isAssignableTo(ctx, node, t.string())).toBe(true);
+    expect(
+      isAssignableTo({ ...ctx, typeView: "narrowed" }, node, t.string()),
+    ).toBe(true);
+    expect(checker.typeToString(getSourceType(ctx, node))).toBe("string");
+  });
+
+  test('checks the declared type of a node with "declared"', () => {
+    const declaredCtx: SchemaContext = { ...ctx, typeView: "declared" };
+    const node = nodeAt("narrowed");
+    expect(isAssignableTo(declaredCtx, node, t.string())).toBe(false);
+    expect(
+      isEquivalentTo(declaredCtx, node, t.union(t.string(), t.number())),
+    ).toBe(true);
+    expect(explain(declaredCtx, node, t.string())).toMatchObject({
+      ok: false,
+      reason: "not-assignable",
+    });
+  });
+
+  test('checks the contextual type of an expression with "contextual"', () => {
+    const contextualCtx: SchemaContext = { ...ctx, typeView: "contextual" };
+    const node = nodeAt("argument");
+    expect(isAssignableTo(ctx, node, t.literal("a"))).toBe(true);
+    expect(isAssignableTo(contextualCtx, node, t.literal("a"))).toBe(false);
+    expect(
+      isEquivalentTo(contextualCtx, node, t.union(t.string(), t.number())),
+    ).toBe(true);
+    expect(() =>
+      isAssignableTo(contextualCtx, nodeAt("narrowed"), t.string()),
+    ).toThrow("getSourceType(): the node has no contextual type.");
+  });
+
+  test("checks the declared type of symbols", () => {
+    const value = checker.getSymbolAtLocation(nodeAt("narrowed"))!;
+    expect(isAssignableTo(ctx, value, t.string())).toBe(false);
+    expect(isAssignableTo(ctx, value, t.union(t.string(), t.number()))).toBe(
+      true,
+    );
+    const pair = checker.getSymbolAtLocation(nodeAt("alias"))!;
+    expect(isAssignableTo(ctx, pair, t.tuple([t.string(), t.number()]))).toBe(
+      true,
+    );
+  });
+
+  test("checks signatures as function types", () => {
+    const [fromString, fromNumber] = checker
+      .getTypeAtLocation(nodeAt("overloaded"))
+      .getCallSignatures();
+    const NumberFn = t.function({ params: [t.number()], returns: t.number() });
+    expect(isAssignableTo(ctx, fromNumber!, NumberFn)).toBe(true);
+    expect(isAssignableTo(ctx, fromString!, NumberFn)).toBe(false);
+    expect(isAssignableTo(ctx, nodeAt("overloaded"), NumberFn)).toBe(true);
+  });
+
+  test("returns types as is", () => {
+    const type = checker.getStringType();
+    expect(getSourceType({ ...ctx, typeView: "contextual" }, type)).toBe(type);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Caching
+// ---------------------------------------------------------------------------
+
+describe("result caching", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const point: { x: number; y: number };
+      declare const other: { x: number; y: number };
+      declare const num: number;
+      interface A { next: B; value: number }
+      interface B { next: A; value: string }
+      declare const a: A;
+      declare const b: B;
+    `,
+  });
+
+  test("answers repeated checks from the cache", () => {
+    const Point = t.object({ x: t.number(), y: t.number() });
+    const before = getCacheStats(ctx.checker);
+    expect(isAssignableTo(ctx, getTypeOf("point"), Point)).toBe(true);
+    const afterFirst = getCacheStats(ctx.checker);
+    expect(afterFirst.misses - before.misses).toBe(3);
+    expect(afterFirst.hits).toBe(before.hits);
+
+    expect(isAssignableTo(ctx, getTypeOf("point"), Point)).toBe(true);
+    expect(explain(ctx, getTypeOf("point"), Point)).toEqual({ ok: true });
+    const afterRepeats = getCacheStats(ctx.checker);
+    expect(afterRepeats.hits - afterFirst.hits).toBe(2);
+    expect(afterRepeats.misses).toBe(afterFirst.misses);
+  });
+
+  test("keeps caches per checker", () => {
+    const other = createTestContext({ "test.ts": `declare const n: number;` });
+    const Num = t.number();
+    isAssignableTo(ctx, getTypeOf("num"), Num);
+    const before = getCacheStats(other.ctx.checker);
+    isAssignableTo(other.ctx, other.getTypeOf("n"), Num);
+    expect(getCacheStats(other.ctx.checker)).toEqual({
+      hits: before.hits,
+      misses: before.misses + 1,
+    });
+  });
+
+  test("does not cache impure t.custom() predicates", () => {
+    let calls = 0;
+    const Impure = t.object({
+      x: t.custom(
+        () => {
+          calls++;
+          return calls % 2 === 1;
+        },
+        "number",
+        { pure: false },
+      ),
+    });
+    expect(isAssignableTo(ctx, getTypeOf("other"), Impure)).toBe(true);
+    expect(isAssignableTo(ctx, getTypeOf("other"), Impure)).toBe(false);
+    expect(calls).toBe(2);
+
+    let pureCalls = 0;
+    const Pure = t.custom(() => {
+      pureCalls++;
+      return true;
+    });
+    isAssignableTo(ctx, getTypeOf("other"), Pure);
+    isAssignableTo(ctx, getTypeOf("other"), Pure);
+    expect(pureCalls).toBe(1);
+  });
+
+  test("does not cache results that assumed a cycle", () => {
+    const Node: TypeSchema = t.object({
+      next: t.lazy(() => Node),
+      value: t.number(),
+    });
+    // Checking `b` assumes `b` matches while checking `a`, which then seems
+    // to match; `a` must not be cached as matching.
+    expect(isAssignableTo(ctx, getTypeOf("b"), Node)).toBe(false);
+    expect(isAssignableTo(ctx, getTypeOf("a"), Node)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Explain
+// ---------------------------------------------------------------------------
+
+describe("explain()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      const rect = { x: 1, y: 2, width: 100, height: 200 };
+      const optionalWidth: { x: number; width?: number } = { x: 1 };
+      const nested = { bounds: { x: 1, width: "wide" } };
+      const noBounds = { x: 1 };
+      const points = [{ x: "1", width: 2 }];
+      const num: number = 0;
+      const strOrDate: string | Date = "";
+      const arr: number[] = [];
+    `,
+  });
+
+  const Bounds = t.object({ x: t.number(), width: t.number() });
+
+  test("returns ok for assignable types", () => {
+    expect(explain(ctx, getTypeOf("rect"), Bounds)).toEqual({ ok: true });
+  });
+
+  test("reports optional properties required by the schema", () => {
+    const result = explain(ctx, getTypeOf("optionalWidth"), Bounds);
+    expect(result).toMatchObject({
+      ok: false,
+      path: ["width"],
+      reason: "optional-property",
+    });
+  });
+
+  test("reports missing properties with the parent type", () => {
+    const Shape = t.object({ bounds: Bounds });
+    const result = explain(ctx, getTypeOf("noBounds"), Shape);
+    expect(result).toMatchObject({
+      ok: false,
+      path: ["bounds"],
+      reason: "missing-property",
+    });
+    expect(!result.ok && result.type).toBe(getTypeOf("noBounds"));
+  });
+
+  test("reports the path and schema of nested mismatches", () => {
+    const widthSchema = t.number();
+    const Shape = t.object({
+      bounds: t.object({ x: t.number(), width: widthSchema }),
+    });
+    const result = explain(ctx, getTypeOf("nested"), Shape);
+    expect(result).toMatchObject({
+      ok: false,
+      path: ["bounds", "width"],
+      reason: "not-assignable",
+    });
+    if (result.ok) return;
+    expect(result.schema).toBe(widthSchema);
+    expect(ctx.checker.typeToString(result.type)).toBe("string");
+  });
+
+  test("reports array element mismatches", () => {
+    const result = explain(ctx, getTypeOf("points"), t.array(Bounds));
+    expect(result).toMatchObject({ ok: false, path: ["[number]", "x"] });
+    expect(explain(ctx, getTypeOf("num"), t.array(Bounds))).toMatchObject({
+      ok: false,
+      path: [],
+      reason: "not-array",
+    });
+  });
+
+  test("reports the union constituent that matched no member", () => {
+    const result = explain(
+      ctx,
+      getTypeOf("strOrDate"),
+      t.union(t.string(), t.number()),
+    );
+    expect(result).toMatchObject({ ok: false, reason: "no-matching-member" });
+    if (result.ok) return;
+    expect(ctx.checker.typeToString(result.type)).toBe("Date");
+    expect(result.causes?.map((c) => c.reason)).toEqual([
+      "not-assignable",
+      "not-assignable",
+    ]);
+  });
+
+  test("reports the first failing member of an intersection", () => {
+    const result = explain(
+      ctx,
+      getTypeOf("arr"),
+      t.intersection(t.array(t.number()), t.object({ foo: t.string() })),
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      path: ["foo"],
+      reason: "missing-property",
+    });
+  });
+
+  test("reports custom predicate rejections", () => {
+    const HasLength = t.custom((type) => type.getProperty("length") != null);
+    const result = explain(ctx, getTypeOf("num"), HasLength);
+    expect(result).toMatchObject({ ok: false, reason: "custom" });
+    expect(!result.ok && result.schema).toBe(HasLength);
+  });
+});
+
+describe("explain() with t.fromModule()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "lib.ts": `
+      export declare class Widget {
+        id: number;
+      }
+    `,
+    "test.ts": `
+      declare const notWidget: string;
+    `,
+  });
+
+  test("reports t.fromModule() rejections", () => {
+    const Widget = t.fromModule("./lib", "Widget");
+    const result = explain(ctx, getTypeOf("notWidget"), Widget);
+    expect(result).toMatchObject({
+      ok: false,
+      path: [],
+      reason: "not-assignable",
+    });
+    expect(!result.ok && result.schema).toBe(Widget);
+  });
+});
+
+describe("match()", () => {
+  const { getTypeOf, ctx } = createTestContext({
+    "test.ts": `
+      declare const call: [string, { timeout: number; retries?: number }];
+      declare const items: { label: string }[];
+      declare const stringOrItems: string | { label: string }[];
+      declare const both: { id: string } & { name: string };
+      declare const num: number;
+      declare const handler: (event: { type: string }) => void;
+    `,
+  });
+
+  const captured = (
+    result: ReturnType<typeof match>,
+    name: string,
+  ): string | undefined => {
+    const type = result.ok ? result.captures[name] : undefined;
+    return type && ctx.checker.typeToString(type);
+  };
+
+  test("captures through objects, tuples and arrays", () => {
+    const Call = t.tuple([
+      t.string(),
+      t.capture(
+        "options",
+        t.object({ timeout: t.capture("timeout", t.number()) }),
+      ),
+    ]);
+    const result = match(ctx, getTypeOf("call"), Call);
+    expect(captured(result, "options")).toBe(
+      "{ timeout: number; retries?: number | undefined; }",
+    );
+    expect(captured(result, "timeout")).toBe("number");
+
+    const Items = t.array(t.capture("item", t.object({ label: t.string() })));
+    expect(captured(match(ctx, getTypeOf("items"), Items), "item")).toBe(
+      "{ label: string; }",
+    );
+  });
+
+  test("only keeps captures of matching union members", () => {
+    const Schema = t.union(
+      t.capture("text", t.string()),
+      t.array(t.capture("item", t.object({ label: t.string() }))),
+    );
+    const result = match(ctx, getTypeOf("stringOrItems"), Schema);
+    expect(captured(result, "text")).toBe("string");
+    expect(captured(result, "item")).toBe("{ label: string; }");
+
+    const single = match(ctx, getTypeOf("items"), Schema);
+    expect(single.ok && Object.keys(single.captures)).toEqual(["item"]);
+  });
+
+  test("captures through intersections", () => {
+    const Schema = t.intersection(
+      t.capture("id", t.object({ id: t.string() })),
+      t.object({ name: t.capture("name", t.string()) }),
+    );
+    const result = match(ctx, getTypeOf("both"), Schema);
+    expect(captured(result, "id")).toBe("{ id: string; } & { name: string; }");
+    expect(captured(result, "name")).toBe("string");
+  });
+
+  test("captures parameter types", () => {
+    const Handler = t.function({
+      params: [t.capture("event", t.object({ type: t.literal("click") }))],
+    });
+    expect(captured(match(ctx, getTypeOf("handler"), Handler), "event")).toBe(
+      "{ type: string; }",
+    );
+  });
+
+  test("returns the mismatch when the type does not match", () => {
+    const result = match(ctx, getTypeOf("num"), t.capture("text", t.string()));
+    expect(result).toMatchObject({ ok: false, reason: "not-assignable" });
+  });
+
+  test("captures do not change printing or checking", () => {
+    const Schema = t.capture("value", t.string().nullable());
+    expect(printSchema(t.array(Schema))).toBe("(string | null)[]");
+    expect(isAssignableTo(ctx, getTypeOf("num"), Schema)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Printing
+// ---------------------------------------------------------------------------
+
+describe("printSchema()", () => {
+  test("prints primitives", () => {
+    expect(printSchema(t.number())).toBe("number");
+    expect(printSchema(t.string())).toBe("string");
+    expect(printSchema(t.boolean())).toBe("boolean");
+    expect(printSchema(t.void())).toBe("void");
+    expect(printSchema(t.undefined())).toBe("undefined");
+    expect(printSchema(t.null())).toBe("null");
+    expect(printSchema(t.any())).toBe("any");
+    expect(printSchema(t.unknown())).toBe("unknown");
+  });
+
+  test("prints objects with optional properties", () => {
+    const Point = t.object({
+      x: t.number(),
+      y: t.number(),
+      label: t.string().optional(),
+    });
+    expect(printSchema(Point)).toBe(
+      "{ x: number; y: number; label?: string | undefined }",
+    );
+    expect(printSchema(t.object({}))).toBe("{}");
+    expect(
+      printSchema(
+        t.object({ id: t.string().readonly(), name: t.string().mutable() }),
+      ),
+    ).toBe("{ readonly id: string; name: string }");
+    expect(printSchema(t.object({ "data-id": t.string() }))).toBe(
+      '{ "data-id": string }',
+    );
+  });
+
+  test("prints modifiers", () => {
+    expect(printSchema(t.number().nullable())).toBe("number | null");
+    expect(printSchema(t.number().nullish())).toBe("number | null | undefined");
+  });
+
+  test("parenthesizes nested unions and intersections", () => {
+    expect(printSchema(t.array(t.union(t.string(), t.number())))).toBe(
+      "(string | number)[]",
+    );
+    expect(
+      printSchema(
+        t.intersection(
+          t.object({ a: t.string() }),
+          t.union(t.object({ b: t.number() }), t.null()),
+        ),
+      ),
+    ).toBe("{ a: string } & ({ b: number } | null)");
+    expect(
+      printSchema(t.union(t.intersection(t.string(), t.number()), t.null())),
+    ).toBe("string & number | null");
+  });
+
+  test("prints literals and template literals", () => {
+    expect(printSchema(t.literal("click"))).toBe('"click"');
+    expect(printSchema(t.literal(42))).toBe("42");
+    expect(printSchema(t.literal(false))).toBe("false");
+    expect(printSchema(t.enum(["GET", "POST"]))).toBe('"GET" | "POST"');
+    expect(printSchema(t.templateLiteral(["on", t.string()]))).toBe(
+      "`on${string}`",
+    );
+    expect(printSchema(t.templateLiteral(["`$", t.enum([1, 2])]))).toBe(
+      "`\\`$${1 | 2}`",
+    );
+    expect(printSchema(t.enumFromModule("./http", "Method"))).toBe(
+      'import("./http").Method',
+    );
+    expect(
+      printSchema(
+        t.array(t.enumFromModule("./http", "Method", ["Get", "Head"])),
+      ),
+    ).toBe('(import("./http").Method.Get | import("./http").Method.Head)[]');
+  });
+
+  test("prints tuples", () => {
+    expect(printSchema(t.tuple([t.number(), t.string().optional()]))).toBe(
+      "[number, (string | undefined)?]",
+    );
+    expect(
+      printSchema(t.tuple([t.string()], { rest: t.number(), readonly: true })),
+    ).toBe("readonly [string, ...number[]]");
+    expect(
+      printSchema(t.array(t.tuple([t.number()], { readonly: true }))),
+    ).toBe("(readonly [number])[]");
+  });
+
+  test("prints promises, iterables and generators", () => {
+    expect(printSchema(t.promise(t.void()))).toBe("Promise<void>");
+    expect(printSchema(t.thenable(t.number()))).toBe("PromiseLike<number>");
+    expect(printSchema(t.awaited(t.string()))).toBe(
+      "string | PromiseLike<string>",
+    );
+    expect(printSchema(t.array(t.awaited(t.string())))).toBe(
+      "(string | PromiseLike<string>)[]",
+    );
+    expect(printSchema(t.iterable(t.number()))).toBe("Iterable<number>");
+    expect(printSchema(t.asyncIterable(t.number()))).toBe(
+      "AsyncIterable<number>",
+    );
+    expect(printSchema(t.generator({ yields: t.number() }))).toBe(
+      "Generator<number, unknown, any>",
+    );
+    expect(printSchema(t.generator({}, { async: true }))).toBe(
+      "AsyncGenerator<unknown, unknown, any>",
+    );
+  });
+
+  test("prints class instances and branded types", () => {
+    expect(
+      printSchema(t.instanceOf(t.fromModule("electron", "BaseWindow"))),
+    ).toBe('import("electron").BaseWindow');
+    expect(printSchema(t.branded(t.string(), "UserId"))).toBe(
+      'string & { __brand: "UserId" }',
+    );
+    expect(
+      printSchema(t.branded(t.union(t.string(), t.number()), "Id").nullable()),
+    ).toBe('(string | number) & { __brand: "Id" } | null');
+  });
+
+  test("prints records and collections", () => {
+    expect(printSchema(t.record(t.string(), t.number().optional()))).toBe(
+      "Record<string, number | undefined>",
+    );
+    expect(printSchema(t.map(t.string(), t.set(t.number())))).toBe(
+      "Map<string, Set<number>>",
+    );
+    expect(printSchema(t.set(t.string(), { readonly: true }).nullable())).toBe(
+      "ReadonlySet<string> | null",
+    );
+  });
+
+  test("prints signatures", () => {
+    expect(
+      printSchema(
+        t.function({
+          params: [t.string(), t.number().optional()],
+          rest: t.boolean(),
+          returns: t.void(),
+        }),
+      ),
+    ).toBe(
+      "(arg0: string, arg1?: number | undefined, ...rest: boolean[]) => void",
+    );
+    expect(printSchema(t.newable())).toBe("new () => unknown");
+    expect(printSchema(t.union(t.function(), t.null()))).toBe(
+      "(() => unknown) | null",
+    );
+    expect(printSchema(t.array(t.function({ returns: t.string() })))).toBe(
+      "(() => string)[]",
+    );
+  });
+
+  test("prints module references and custom labels", () => {
+    expect(printSchema(t.fromModule("electron", "BaseWindow"))).toBe(
+      'import("electron").BaseWindow',
+    );
+    expect(
+      printSchema(t.fromModule("./result", "Result").of(t.string(), t.any())),
+    ).toBe('import("./result").Result<string, any>');
+    expect(printSchema(t.fromModule("./result", "Result").ofAny())).toBe(
+      'import("./result").Result',
+    );
+    expect(printSchema(t.custom(() => true, "HasLength"))).toBe("HasLength");
+    expect(printSchema(t.custom(() => true))).toBe("<custom>");
+  });
+
+  test("toString() matches printSchema()", () => {
+    const schema = t.array(t.object({ x: t.number() }));
+    expect(`${schema}`).toBe(printSchema(schema));
   });
 });
@@ -0,0 +1,298 @@
+import ts from "typescript";
+import { describe, expect, test } from "vitest";
+
+import { isAssignableTo, t } from "../src/index.ts";
+import {
+  createTestProgram,
+  schemaMatchers,
+  type SchemaMatchers,
+} from "../src/testing.ts";
+
+declare module "vitest" {
+  interface Assertion<T> extends SchemaMatchers<T> {}
+}
+
+expect.extend(schemaMatchers);
+
+describe("createTestProgram()", () => {
+  const { ctx, typeOf, typeAt, program } = createTestProgram({
+    "node_modules/electron/package.json": JSON.stringify({
+      name: "electron",
+      types: "index.d.ts",
+    }),
+    "node_modules/electron/index.d.ts": `
+      export declare class BaseWindow { id: number }
+    `,
+    "ambient.d.ts": `
+      declare module "virtual:config" {
+        export interface Config { debug: boolean }
+      }
+    `,
+    "lib.ts": `
+      export interface Point { x: number; y: number }
+    `,
+    "test.ts": `
+      import { BaseWindow } from "electron";
+      import type { Config } from "virtual:config";
+      import { Point } from "./lib";
+      declare const win: BaseWindow | null;
+      declare const config: Config;
+      declare const point: Point;
+      type Pair = [string, number];
+      interface Named { name: string }
+      if (win) /*@*/win;
+      const value = /*@literal*/ (42 as const);
+    `,
+  });
+
+  test("compiles the files in memory", () => {
+    expect(
+      program
+        .getSourceFiles()
+        .filter((sourceFile) => !program.isSourceFileDefaultLibrary(sourceFile))
+        .map((sourceFile) => sourceFile.fileName)
+        .sort(),
+    ).toEqual([
+      "/typezod/ambient.d.ts",
+      "/typezod/lib.ts",
+      "/typezod/node_modules/electron/index.d.ts",
+      "/typezod/test.ts",
+    ]);
+    const diagnostics = program
+      .getSemanticDiagnostics()
+      .map((diagnostic) =>
+        typeof diagnostic.messageText === "string"
+          ? diagnostic.messageText
+          : diagnostic.messageText.messageText,
+      );
+    expect(diagnostics).toEqual([]);
+  });
+
+  test("typeOf() returns the types of values and declared types", () => {
+    expect(ctx.checker.typeToString(typeOf("win"))).toBe("BaseWindow | null");
+    expect(ctx.checker.typeToString(typeOf("point"))).toBe("Point");
+    expect(ctx.checker.typeToString(typeOf("Pair"))).toBe("Pair");
+    expect(ctx.checker.typeToString(typeOf("Named"))).toBe("Named");
+    expect(() => typeOf("missing")).toThrow(
+      'typeOf(): "missing" is not in scope in "test.ts".',
+    );
+  });
+
+  test("typeAt() returns the narrowed type after a marker", () => {
+    expect(ctx.checker.typeToString(typeAt())).toBe("BaseWindow");
+    expect(ctx.checker.typeToString(typeAt("literal"))).toBe("42");
+    expect(() => typeAt("missing")).toThrow(
+      'typeAt(): expected exactly one /*@missing*/ marker in "test.ts".',
+    );
+  });
+
+  test("resolves ambient modules for t.fromModule()", () => {
+    expect(
+      isAssignableTo(
+        ctx,
+        typeOf("config"),
+        t.fromModule("virtual:config", "Config"),
+      ),
+    ).toBe(true);
+  });
+
+  test("throws for a missing entry file", () => {
+    expect(() => createTestProgram({ "lib.ts": "" })).toThrow(
+      'createTestProgram(): missing entry file "test.ts".',
+    );
+    expect(
+      createTestProgram({ "main.ts": "" }, { entry: "main.ts" }).sourceFile
+        .fileName,
+    ).toBe("/typezod/main.ts");
+  });
+});
+
+describe("t.fromModule() in a virtual program", () => {
+  const { ctx, typeOf } = createTestProgram(
+    {
+      "node_modules/conditional/package.json": JSON.stringify({
+        name: "conditional",
+        types: "./index.d.ts",
+        exports: {
+          ".": { types: "./types.d.ts", default: "./index.js" },
+          "./extra": { types: "./extra.d.ts" },
+        },
+      }),
+      "node_modules/conditional/index.d.ts": `
+        export interface Options { legacy: true }
+      `,
+      "node_modules/conditional/types.d.ts": `
+        export interface Options { verbose: boolean }
+        export type { Extra } from "./extra";
+      `,
+      "node_modules/conditional/extra.d.ts": `
+        export interface Extra { level: number }
+      `,
+      "src/shared/point.ts": `
+        export interface Point { x: number; y: number }
+      `,
+      "test.ts": `
+        import type { Options } from "conditional";
+        import type { Point } from "@shared/point";
+        declare const options: Options;
+        declare const legacy: { legacy: true };
+        declare const point: Point;
+        declare const extra: { level: number };
+        declare const located: { origin: Point };
+      `,
+    },
+    {
+      compilerOptions: {
+        strict: true,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        paths: { "@shared/*": ["./src/shared/*"] },
+      },
+    },
+  );
+
+  test("resolves package.json exports conditions", () => {
+    const Options = t.fromModule("conditional", "Options");
+    expect(typeOf("options")).toMatchSchema(Options);
+    expect(typeOf("legacy")).not.toMatchSchema(Options);
+  });
+
+  test("resolves paths aliases", () => {
+    expect(typeOf("point")).toMatchSchema(
+      t.fromModule("@shared/point", "Point"),
+    );
+  });
+
+  test("resolves specifiers that no file imports in the virtual files", () => {
+    expect(typeOf("extra")).toMatchSchema(
+      t.fromModule("conditional/extra", "Extra"),
+    );
+    expect(typeOf("point")).toMatchSchema(
+      t.fromModule("./src/shared/point", "Point"),
+    );
+  });
+
+  test("resolves bare specifiers from each source file", () => {
+    const { ctx, program, typeOf } = createTestProgram({
+      "a/node_modules/lib/index.d.ts": "export interface Version { a: true }",
+      "b/node_modules/lib/index.d.ts": "export interface Version { b: true }",
+      "a/index.ts": 'import type { Version } from "lib";',
+      "b/index.ts": 'import type { Version } from "lib";',
+      "test.ts": `
+        declare const a: { a: true };
+        declare const b: { b: true };
+      `,
+    });
+    const Version = t.fromModule("lib", "Version");
+    const inA = {
+      ...ctx,
+      sourceFile: program.getSourceFile("/typezod/a/index.ts"),
+    };
+    const inB = {
+      ...ctx,
+      sourceFile: program.getSourceFile("/typezod/b/index.ts"),
+    };
+    expect(isAssignableTo(inA, typeOf("a"), Version)).toBe(true);
+    expect(isAssignableTo(inB, typeOf("a"), Version)).toBe(false);
+    expect(isAssignableTo(inB, typeOf("b"), Version)).toBe(true);
+  });
+
+  test("ignores the imports of other source files", () => {
+    const { ctx, program, typeOf } = createTestProgram({
+      "a/node_modules/lib/index.d.ts": "export interface Version { a: true }",
+      "b/node_modules/lib/index.d.ts": "export interface Version { b: true }",
+      "b/index.ts": 'import type { Version } from "lib";',
+      // Only brings the package of `a` into the program.
+      "a/other.ts": 'import type { Version } from "lib";',
+      "a/index.ts": "export {};",
+      "test.ts": `
+        declare const a: { a: true };
+        declare const b: { b: true };
+      `,
+    });
+    const Version = t.fromModule("lib", "Version");
+    const inA = {
+      ...ctx,
+      sourceFile: program.getSourceFile("/typezod/a/index.ts"),
+    };
+    expect(isAssignableTo(inA, typeOf("a"), Version)).toBe(true);
+    expect(isAssignableTo(inA, typeOf("b"), Version)).toBe(false);
+  });
+
+  test("resolves through the moduleResolutionHost of the context", () => {
+    const Point = t.fromModule("./src/shared/point.js", "Point");
+    const moduleResolutionHost: ts.ModuleResolutionHost = {
+      fileExists: () => false,
+      readFile: () => undefined,
+    };
+    expect(() =>
+      isAssignableTo({ ...ctx, moduleResolutionHost }, typeOf("point"), Point),
+    ).toThrow(
+      't.fromModule(): could not resolve export "Point" from module "./src/shared/point.js".',
+    );
+  });
+
+  test("does not share cached results between resolution hosts", () => {
+    const Point = t.object({
+      origin: t.fromModule("./src/shared/point.js", "Point"),
+    });
+    const moduleResolutionHost: ts.ModuleResolutionHost = {
+      fileExists: () => false,
+      readFile: () => undefined,
+    };
+    expect(isAssignableTo(ctx, typeOf("located"), Point)).toBe(true);
+    expect(() =>
+      isAssignableTo(
+        { ...ctx, moduleResolutionHost },
+        typeOf("located"),
+        Point,
+      ),
+    ).toThrow('could not resolve export "Point"');
+    expect(() =>
+      isAssignableTo(
+        { ...ctx, moduleResolutionHost },
+        typeOf("located"),
+        t.compiled(Point),
+      ),
+    ).toThrow('could not resolve export "Point"');
+  });
+});
+
+describe("toMatchSchema()", () => {
+  const { ctx, typeOf } = createTestProgram({
+    "test.ts": `
+      declare const bounds: { x: number; y: number; label: string };
+    `,
+  });
+  const Bounds = t.object({ x: t.number(), y: t.number() });
+
+  test("passes for matching types", () => {
+    expect(typeOf("bounds")).toMatchSchema(Bounds);
+    expect(typeOf("bounds")).not.toMatchSchema(t.string());
+  });
+
+  test("describes the mismatch on failure", () => {
+    expect(() =>
+      expect(typeOf("bounds")).toMatchSchema(
+        t.object({ x: t.number(), label: t.number() }),
+      ),
+    ).toThrow(
+      "expected type `{ x: number; y: number; label: string; }` to match " +
+        "schema `{ x: number; label: number }`\n\n" +
+        "Mismatch at `label` (not-assignable): type `string` does not match " +
+        "`number`",
+    );
+    expect(() => expect(typeOf("bounds")).not.toMatchSchema(Bounds)).toThrow(
+      "expected type `{ x: number; y: number; label: string; }` not to " +
+        "match schema `{ x: number; y: number }`",
+    );
+  });
+
+  test("accepts an explicit context", () => {
+    const { checker } = ctx;
+    expect(checker.getNumberType()).toMatchSchema(t.number(), ctx);
+    expect(() =>
+      expect(checker.getNumberType()).toMatchSchema(t.number()),
+    ).toThrow("toMatchSchema() expects a type from createTestProgram()");
+  });
+});